@@ -2,6 +2,7 @@ import * as vscode from "vscode";
 import type { ConvexNavigatorConfig, ConvexProjectInfo } from "./types";
 import * as path from "path";
 import * as fs from "fs";
+import { findInstalledComponents } from "./resolver/componentResolver";
 
 /**
  * Default Convex function wrappers that ship with the Convex library
@@ -13,6 +14,7 @@ export const DEFAULT_CONVEX_WRAPPERS = [
   "internalQuery",
   "internalMutation",
   "internalAction",
+  "httpAction",
 ];
 
 /**
@@ -25,6 +27,7 @@ export function getConfig(): ConvexNavigatorConfig {
     convexPath: config.get<string>("convexPath", ""),
     frontendPaths: config.get<string[]>("frontendPaths", []),
     customWrappers: config.get<string[]>("customWrappers", []),
+    authenticatedWrappers: config.get<string[]>("authenticatedWrappers", []),
     apiImportPatterns: config.get<string[]>("apiImportPatterns", [
       "api",
       "internal",
@@ -36,6 +39,14 @@ export function getConfig(): ConvexNavigatorConfig {
       "**/out/**",
       "**/.git/**",
     ]),
+    persistIndex: config.get<boolean>("persistIndex", true),
+    enableCodeLens: config.get<boolean>("enableCodeLens", true),
+    unusedFunctionDiagnostics: config.get<boolean>(
+      "unusedFunctionDiagnostics",
+      true,
+    ),
+    unusedExcludePatterns: config.get<string[]>("unusedExcludePatterns", []),
+    codegenCheck: config.get<boolean>("codegenCheck", true),
   };
 }
 
@@ -48,71 +59,129 @@ export function getAllWrappers(): string[] {
 }
 
 /**
- * Auto-detect the Convex project structure in the workspace
+ * Auto-detect all Convex projects in the workspace
+ *
+ * Every workspace folder is searched, so multi-root workspaces and monorepos
+ * with several Convex backends return one entry per convex directory.
+ * Components installed in a convex.config.ts are returned as projects too.
  */
-export async function detectConvexProject(): Promise<ConvexProjectInfo | null> {
+export async function detectConvexProjects(): Promise<ConvexProjectInfo[]> {
   const workspaceFolders = vscode.workspace.workspaceFolders;
   if (!workspaceFolders || workspaceFolders.length === 0) {
-    return null;
+    return [];
   }
 
-  const workspaceRoot = workspaceFolders[0].uri.fsPath;
   const config = getConfig();
+  const projects: ConvexProjectInfo[] = [];
+
+  // Skip directories that are already registered or nested inside another
+  // project (e.g., local Convex components with their own convex.config.ts)
+  const addProject = (project: ConvexProjectInfo) => {
+    const isCovered = projects.some(
+      (p) =>
+        project.convexDir === p.convexDir ||
+        project.convexDir.startsWith(p.convexDir + path.sep),
+    );
+    if (!isCovered) {
+      projects.push(project);
+    }
+  };
 
-  // If user specified a convex path, use that
-  if (config.convexPath) {
-    const convexDir = path.join(workspaceRoot, config.convexPath);
-    if (fs.existsSync(convexDir)) {
-      return {
+  for (const folder of workspaceFolders) {
+    const workspaceRoot = folder.uri.fsPath;
+
+    // If user specified a convex path, use that
+    if (config.convexPath) {
+      const convexDir = path.join(workspaceRoot, config.convexPath);
+      if (fs.existsSync(convexDir)) {
+        addProject({
+          convexDir,
+          workspaceRoot,
+          configPath: findFile(convexDir, "convex.config.ts"),
+          generatedApiPath: findGeneratedApi(convexDir),
+        });
+        continue;
+      }
+    }
+
+    // Auto-detect by searching for convex.config.ts
+    const configFiles = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(folder, "**/convex.config.ts"),
+      "**/node_modules/**",
+    );
+
+    // Fallback: search for _generated/api.d.ts or api.ts
+    const apiFiles = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(
+        folder,
+        "**/convex/_generated/{api.ts,api.d.ts}",
+      ),
+      "**/node_modules/**",
+    );
+
+    // Outer directories first, so nested ones are recognized as covered
+    const candidates = [
+      ...configFiles.map((file) => ({
+        convexDir: path.dirname(file.fsPath),
+        configPath: file.fsPath,
+      })),
+      ...apiFiles.map((file) => ({
+        convexDir: path.dirname(path.dirname(file.fsPath)),
+        configPath: undefined,
+      })),
+    ].sort((a, b) => a.convexDir.length - b.convexDir.length);
+
+    for (const { convexDir, configPath } of candidates) {
+      addProject({
         convexDir,
         workspaceRoot,
-        configPath: findFile(convexDir, "convex.config.ts"),
-        generatedApiPath: findFile(
-          path.join(convexDir, "_generated"),
-          "api.ts",
-        ),
-      };
+        configPath,
+        generatedApiPath: findGeneratedApi(convexDir),
+      });
     }
   }
 
-  // Auto-detect by searching for convex.config.ts
-  const configFiles = await vscode.workspace.findFiles(
-    "**/convex.config.ts",
-    "**/node_modules/**",
-    5,
-  );
-
-  if (configFiles.length > 0) {
-    const configPath = configFiles[0].fsPath;
-    const convexDir = path.dirname(configPath);
-
-    return {
-      convexDir,
-      workspaceRoot,
-      configPath,
-      generatedApiPath: findFile(path.join(convexDir, "_generated"), "api.ts"),
-    };
+  // Register components installed with app.use(), including nested ones
+  for (let i = 0; i < projects.length; i++) {
+    const parent = projects[i];
+    if (!parent.configPath) {
+      continue;
+    }
+    for (const component of findInstalledComponents(parent.configPath)) {
+      // Local components outside the app's convex directory have their own
+      // convex.config.ts, so they were already detected as a project
+      const existing = projects.find(
+        (p) => p.convexDir === component.convexDir,
+      );
+      if (existing) {
+        if (existing !== parent && !existing.component) {
+          existing.component = {
+            name: component.name,
+            parentConvexDir: parent.convexDir,
+          };
+        }
+        continue;
+      }
+      projects.push({
+        convexDir: component.convexDir,
+        workspaceRoot: parent.workspaceRoot,
+        configPath: component.configPath,
+        generatedApiPath: findGeneratedApi(component.convexDir),
+        component: { name: component.name, parentConvexDir: parent.convexDir },
+      });
+    }
   }
 
-  // Fallback: search for _generated/api.ts
-  const apiFiles = await vscode.workspace.findFiles(
-    "**/convex/_generated/api.ts",
-    "**/node_modules/**",
-    5,
-  );
-
-  if (apiFiles.length > 0) {
-    const apiPath = apiFiles[0].fsPath;
-    const convexDir = path.dirname(path.dirname(apiPath));
-
-    return {
-      convexDir,
-      workspaceRoot,
-      generatedApiPath: apiPath,
-    };
-  }
+  return projects;
+}
 
-  return null;
+/**
+ * Find the generated API module of a convex directory
+ * Convex generates _generated/api.d.ts (with api.js), or api.ts for TypeScript-only output.
+ */
+function findGeneratedApi(convexDir: string): string | undefined {
+  const generatedDir = path.join(convexDir, "_generated");
+  return findFile(generatedDir, "api.d.ts") ?? findFile(generatedDir, "api.ts");
 }
 
 /**
@@ -154,13 +223,21 @@ export function toApiPath(
 /**
  * Convert an API path to a file path
  * e.g., "api.domains.contacts.createContact" -> { filePath: "domains/contacts", functionName: "createContact" }
+ *
+ * Component paths also return the component name
+ * e.g., "components.rateLimiter.lib.rateLimit" -> { componentName: "rateLimiter", modulePath: "lib", functionName: "rateLimit" }
  */
 export function fromApiPath(apiPath: string): {
+  componentName?: string;
   modulePath: string;
   functionName: string;
 } | null {
-  // Remove "api." or "internal." prefix
-  const withoutPrefix = apiPath.replace(/^(api|internal)\./, "");
+  const componentMatch = /^components\.(\w+)\./.exec(apiPath);
+
+  // Remove "api.", "internal." or "components.<name>." prefix
+  const withoutPrefix = componentMatch
+    ? apiPath.slice(componentMatch[0].length)
+    : apiPath.replace(/^(api|internal)\./, "");
   const parts = withoutPrefix.split(".");
 
   if (parts.length < 2) {
@@ -170,5 +247,5 @@ export function fromApiPath(apiPath: string): {
   const functionName = parts.pop()!;
   const modulePath = parts.join("/");
 
-  return { modulePath, functionName };
+  return { componentName: componentMatch?.[1], modulePath, functionName };
 }
@@ -1,7 +1,9 @@
 import * as vscode from "vscode";
-import { detectConvexProject } from "./config";
+import { detectConvexProjects } from "./config";
+import type { ConvexProjectInfo } from "./types";
 import {
   clearProjectCache,
+  getConvexProjects,
   isConvexBackendFile,
 } from "./resolver/pathResolver";
 import {
@@ -10,6 +12,60 @@ import {
   findAllReferencesCommand,
 } from "./providers/referenceProvider";
 import { ConvexHoverProvider } from "./providers/hoverProvider";
+import { ConvexCodeLensProvider } from "./providers/codeLensProvider";
+import { ConvexRenameProvider } from "./providers/renameProvider";
+import { ConvexCallHierarchyProvider } from "./providers/callHierarchyProvider";
+import { ConvexWorkspaceSymbolProvider } from "./providers/workspaceSymbolProvider";
+import { ConvexDocumentSymbolProvider } from "./providers/documentSymbolProvider";
+import {
+  IndexCodeActionProvider,
+  IndexDiagnostics,
+} from "./providers/indexDiagnostics";
+import { SchemaCompletionProvider } from "./providers/schemaCompletionProvider";
+import {
+  ConvexTableDefinitionProvider,
+  ConvexTableHoverProvider,
+  ConvexTableReferenceProvider,
+} from "./providers/tableProvider";
+import {
+  ApiPathCodeActionProvider,
+  ApiPathDiagnostics,
+} from "./providers/apiPathDiagnostics";
+import {
+  CodegenCodeActionProvider,
+  CodegenDiagnostics,
+  runCodegenCommand,
+} from "./providers/codegenDiagnostics";
+import {
+  UnusedFunctionsDiagnostics,
+  showUnusedFunctionsCommand,
+} from "./providers/unusedFunctionsProvider";
+import {
+  ConvexFunctionsTreeProvider,
+  findUsagesFromTreeCommand,
+} from "./providers/functionsTreeProvider";
+import {
+  HttpRouteDefinitionProvider,
+  HttpRouteHoverProvider,
+} from "./providers/httpRouteProvider";
+import { HttpRoutesTreeProvider } from "./providers/httpRoutesTreeProvider";
+import { UsagesTreeProvider } from "./providers/usagesTreeProvider";
+import {
+  AuthAuditTreeProvider,
+  exportAuthAuditCommand,
+} from "./providers/authAuditTreeProvider";
+import {
+  CronJobsTreeProvider,
+  goToCronTargetCommand,
+} from "./providers/cronJobsTreeProvider";
+import {
+  ConvexWorkspaceIndex,
+  setWorkspaceIndex,
+} from "./resolver/workspaceIndex";
+import {
+  ConvexDefinitionProvider,
+  goToDefinitionCommand,
+} from "./providers/definitionProvider";
 
 let outputChannel: vscode.OutputChannel;
 
@@ -23,9 +79,9 @@ export async function activate(
   outputChannel = vscode.window.createOutputChannel("Convex Navigator");
   outputChannel.appendLine("Convex Navigator extension activating...");
 
-  // Detect Convex project
-  const projectInfo = await detectConvexProject();
-  if (!projectInfo) {
+  // Detect Convex projects (several in multi-root workspaces and monorepos)
+  const projects = await detectConvexProjects();
+  if (projects.length === 0) {
     outputChannel.appendLine(
       "No Convex project detected. Extension features will be limited.",
     );
@@ -35,7 +91,17 @@ export async function activate(
     return;
   }
 
-  outputChannel.appendLine(`Convex directory found: ${projectInfo.convexDir}`);
+  for (const projectInfo of projects) {
+    outputChannel.appendLine(
+      `Convex directory found: ${projectInfo.convexDir}`,
+    );
+  }
+
+  // Build the workspace index of definitions and usages in the background
+  const workspaceIndex = new ConvexWorkspaceIndex(context.storageUri);
+  setWorkspaceIndex(workspaceIndex);
+  context.subscriptions.push(workspaceIndex);
+  void buildWorkspaceIndex(workspaceIndex);
 
   // Register document selectors for TypeScript/JavaScript files
   const documentSelector: vscode.DocumentSelector = [
@@ -62,6 +128,245 @@ export async function activate(
   );
   outputChannel.appendLine("Hover provider registered");
 
+  // Register Definition Provider
+  const definitionProvider = new ConvexDefinitionProvider();
+  context.subscriptions.push(
+    vscode.languages.registerDefinitionProvider(
+      documentSelector,
+      definitionProvider,
+    ),
+  );
+  outputChannel.appendLine("Definition provider registered");
+
+  // Register Rename Provider
+  const renameProvider = new ConvexRenameProvider();
+  context.subscriptions.push(
+    vscode.languages.registerRenameProvider(documentSelector, renameProvider),
+  );
+  outputChannel.appendLine("Rename provider registered");
+
+  // Register Call Hierarchy Provider and watchers of each convex directory
+  // They are registered again whenever the detected projects change
+  const callHierarchyProvider = new ConvexCallHierarchyProvider();
+  let projectFeatures = registerProjectFeatures(
+    projects,
+    callHierarchyProvider,
+  );
+  context.subscriptions.push({ dispose: () => projectFeatures.dispose() });
+  const updateProjectFeatures = async () => {
+    const updatedProjects = await getConvexProjects();
+    projectFeatures.dispose();
+    projectFeatures = registerProjectFeatures(
+      updatedProjects,
+      callHierarchyProvider,
+    );
+  };
+  outputChannel.appendLine("Call hierarchy provider registered");
+
+  // Register Workspace Symbol Provider (Ctrl+T by API path)
+  context.subscriptions.push(
+    vscode.languages.registerWorkspaceSymbolProvider(
+      new ConvexWorkspaceSymbolProvider(),
+    ),
+  );
+  outputChannel.appendLine("Workspace symbol provider registered");
+
+  // Register Document Symbol Provider (Outline and breadcrumbs)
+  context.subscriptions.push(
+    vscode.languages.registerDocumentSymbolProvider(
+      documentSelector,
+      new ConvexDocumentSymbolProvider(),
+      { label: "Convex" },
+    ),
+  );
+  outputChannel.appendLine("Document symbol provider registered");
+
+  // Register schema table navigation (ctx.db.query("contacts") -> schema.ts)
+  context.subscriptions.push(
+    vscode.languages.registerDefinitionProvider(
+      documentSelector,
+      new ConvexTableDefinitionProvider(),
+    ),
+    vscode.languages.registerHoverProvider(
+      documentSelector,
+      new ConvexTableHoverProvider(),
+    ),
+    vscode.languages.registerReferenceProvider(
+      documentSelector,
+      new ConvexTableReferenceProvider(),
+    ),
+  );
+  outputChannel.appendLine("Schema table providers registered");
+
+  // Register schema completions (ctx.db.query("|"), .withIndex("|"), q.eq("|"))
+  context.subscriptions.push(
+    vscode.languages.registerCompletionItemProvider(
+      documentSelector,
+      new SchemaCompletionProvider(),
+      '"',
+      "'",
+      "`",
+    ),
+  );
+  outputChannel.appendLine("Schema completion provider registered");
+
+  // Register HTTP route navigation (fetch(`${siteUrl}/api/webhook`) -> handler)
+  context.subscriptions.push(
+    vscode.languages.registerDefinitionProvider(
+      documentSelector,
+      new HttpRouteDefinitionProvider(),
+    ),
+    vscode.languages.registerHoverProvider(
+      documentSelector,
+      new HttpRouteHoverProvider(),
+    ),
+  );
+  outputChannel.appendLine("HTTP route providers registered");
+
+  // Register CodeLens Provider
+  const codeLensProvider = new ConvexCodeLensProvider();
+  context.subscriptions.push(
+    vscode.languages.registerCodeLensProvider(
+      documentSelector,
+      codeLensProvider,
+    ),
+    workspaceIndex.onDidChange(() => codeLensProvider.refresh()),
+  );
+  outputChannel.appendLine("CodeLens provider registered");
+
+  // Register unused function diagnostics
+  const unusedDiagnostics = new UnusedFunctionsDiagnostics();
+  context.subscriptions.push(
+    unusedDiagnostics,
+    workspaceIndex.onDidChange(() => unusedDiagnostics.scheduleUpdate()),
+  );
+  outputChannel.appendLine("Unused function diagnostics registered");
+
+  // Register unresolved API path diagnostics
+  const apiPathDiagnostics = new ApiPathDiagnostics();
+  context.subscriptions.push(
+    apiPathDiagnostics,
+    vscode.languages.registerCodeActionsProvider(
+      documentSelector,
+      new ApiPathCodeActionProvider(),
+      {
+        providedCodeActionKinds:
+          ApiPathCodeActionProvider.providedCodeActionKinds,
+      },
+    ),
+    vscode.workspace.onDidOpenTextDocument((document) =>
+      apiPathDiagnostics.scheduleUpdate(document),
+    ),
+    vscode.workspace.onDidChangeTextDocument((e) =>
+      apiPathDiagnostics.scheduleUpdate(e.document),
+    ),
+    vscode.workspace.onDidCloseTextDocument((document) =>
+      apiPathDiagnostics.clear(document),
+    ),
+    workspaceIndex.onDidChange(() => apiPathDiagnostics.updateAll()),
+  );
+  apiPathDiagnostics.updateAll();
+  outputChannel.appendLine("API path diagnostics registered");
+
+  // Register unknown index diagnostics
+  const indexDiagnostics = new IndexDiagnostics();
+  context.subscriptions.push(
+    indexDiagnostics,
+    vscode.languages.registerCodeActionsProvider(
+      documentSelector,
+      new IndexCodeActionProvider(),
+      {
+        providedCodeActionKinds:
+          IndexCodeActionProvider.providedCodeActionKinds,
+      },
+    ),
+    vscode.workspace.onDidOpenTextDocument((document) =>
+      indexDiagnostics.scheduleUpdate(document),
+    ),
+    vscode.workspace.onDidChangeTextDocument((e) =>
+      indexDiagnostics.scheduleUpdate(e.document),
+    ),
+    vscode.workspace.onDidCloseTextDocument((document) =>
+      indexDiagnostics.clear(document),
+    ),
+    vscode.workspace.onDidSaveTextDocument((document) => {
+      // Indexes changed in schema.ts affect every open document
+      if (/[\\/]schema\.(ts|js)$/.test(document.uri.fsPath)) {
+        indexDiagnostics.updateAll();
+      }
+    }),
+  );
+  indexDiagnostics.updateAll();
+  outputChannel.appendLine("Index diagnostics registered");
+
+  // Register stale generated API detection
+  const codegenDiagnostics = new CodegenDiagnostics();
+  context.subscriptions.push(
+    codegenDiagnostics,
+    vscode.languages.registerCodeActionsProvider(
+      documentSelector,
+      new CodegenCodeActionProvider(),
+      {
+        providedCodeActionKinds:
+          CodegenCodeActionProvider.providedCodeActionKinds,
+      },
+    ),
+  );
+  void codegenDiagnostics.update();
+  outputChannel.appendLine("Codegen check registered");
+
+  // Register Convex Functions tree view
+  const functionsTreeProvider = new ConvexFunctionsTreeProvider();
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider(
+      "convexNavigator.functions",
+      functionsTreeProvider,
+    ),
+    workspaceIndex.onDidChange(() => functionsTreeProvider.refresh()),
+  );
+  outputChannel.appendLine("Functions view registered");
+
+  // Register HTTP Routes tree view
+  const httpRoutesTreeProvider = new HttpRoutesTreeProvider();
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider(
+      "convexNavigator.httpRoutes",
+      httpRoutesTreeProvider,
+    ),
+    workspaceIndex.onDidChange(() => httpRoutesTreeProvider.refresh()),
+  );
+  outputChannel.appendLine("HTTP Routes view registered");
+
+  // Register Cron Jobs tree view
+  const cronJobsTreeProvider = new CronJobsTreeProvider();
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider(
+      "convexNavigator.cronJobs",
+      cronJobsTreeProvider,
+    ),
+    workspaceIndex.onDidChange(() => cronJobsTreeProvider.refresh()),
+  );
+  outputChannel.appendLine("Cron Jobs view registered");
+
+  // Register Usages results view
+  const usagesTreeProvider = new UsagesTreeProvider();
+  context.subscriptions.push(
+    usagesTreeProvider,
+    workspaceIndex.onDidChange(() => void usagesTreeProvider.refresh()),
+  );
+  outputChannel.appendLine("Usages view registered");
+
+  // Register Auth Audit tree view
+  const authAuditTreeProvider = new AuthAuditTreeProvider();
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider(
+      "convexNavigator.authAudit",
+      authAuditTreeProvider,
+    ),
+    workspaceIndex.onDidChange(() => authAuditTreeProvider.refresh()),
+  );
+  outputChannel.appendLine("Auth Audit view registered");
+
   // Register Commands
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -75,6 +380,84 @@ export async function activate(
       findAllReferencesCommand,
     ),
   );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "convexNavigator.goToDefinition",
+      goToDefinitionCommand,
+    ),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "convexNavigator.showUnusedFunctions",
+      showUnusedFunctionsCommand,
+    ),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("convexNavigator.refreshFunctions", () =>
+      functionsTreeProvider.refresh(),
+    ),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("convexNavigator.refreshHttpRoutes", () =>
+      httpRoutesTreeProvider.refresh(),
+    ),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "convexNavigator.showUsageResults",
+      (definition) => usagesTreeProvider.showUsages(definition),
+    ),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("convexNavigator.filterUsages", () =>
+      usagesTreeProvider.filter(),
+    ),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("convexNavigator.clearUsages", () =>
+      usagesTreeProvider.clear(),
+    ),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("convexNavigator.showAuthAudit", () => {
+      authAuditTreeProvider.refresh();
+      return vscode.commands.executeCommand("convexNavigator.authAudit.focus");
+    }),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("convexNavigator.refreshAuthAudit", () =>
+      authAuditTreeProvider.refresh(),
+    ),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "convexNavigator.exportAuthAudit",
+      exportAuthAuditCommand,
+    ),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("convexNavigator.refreshCronJobs", () =>
+      cronJobsTreeProvider.refresh(),
+    ),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "convexNavigator.goToCronTarget",
+      goToCronTargetCommand,
+    ),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "convexNavigator.findUsagesFromTree",
+      findUsagesFromTreeCommand,
+    ),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "convexNavigator.runCodegen",
+      (convexDir?: string) => runCodegenCommand(codegenDiagnostics, convexDir),
+    ),
+  );
   outputChannel.appendLine("Commands registered");
 
   // Set context for when cursor is in a Convex backend file
@@ -110,38 +493,146 @@ export async function activate(
       if (e.affectsConfiguration("convexNavigator")) {
         outputChannel.appendLine("Configuration changed, clearing cache...");
         clearProjectCache();
+        void updateProjectFeatures();
+        codeLensProvider.refresh();
+        unusedDiagnostics.scheduleUpdate();
+        apiPathDiagnostics.updateAll();
+        indexDiagnostics.updateAll();
+        codegenDiagnostics.scheduleUpdate();
+        authAuditTreeProvider.refresh();
+        void buildWorkspaceIndex(workspaceIndex);
       }
     }),
   );
 
-  // Watch for file system changes in convex directory
-  const convexWatcher = vscode.workspace.createFileSystemWatcher(
-    `${projectInfo.convexDir}/**/*.{ts,tsx,js,jsx}`,
-    false,
-    false,
-    false,
-  );
-
-  convexWatcher.onDidCreate(() => {
-    outputChannel.appendLine("Convex file created, clearing cache...");
+  // Added or removed workspace folders and new convex directories may
+  // contain other Convex projects
+  const refreshProjects = () => {
     clearProjectCache();
-  });
-
-  convexWatcher.onDidDelete(() => {
-    outputChannel.appendLine("Convex file deleted, clearing cache...");
-    clearProjectCache();
-  });
-
-  context.subscriptions.push(convexWatcher);
+    void updateProjectFeatures();
+    functionsTreeProvider.refresh();
+    httpRoutesTreeProvider.refresh();
+    cronJobsTreeProvider.refresh();
+    authAuditTreeProvider.refresh();
+    codegenDiagnostics.scheduleUpdate();
+    void buildWorkspaceIndex(workspaceIndex);
+  };
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      outputChannel.appendLine("Workspace folders changed, clearing cache...");
+      refreshProjects();
+    }),
+  );
+  for (const pattern of [
+    "**/convex.config.ts",
+    "**/convex/_generated/{api.ts,api.d.ts}",
+  ]) {
+    const projectWatcher = vscode.workspace.createFileSystemWatcher(
+      pattern,
+      false,
+      true,
+      false,
+    );
+    const onProjectFile = (uri: vscode.Uri) => {
+      // Installed packages are not projects of the workspace
+      if (/[\\/]node_modules[\\/]/.test(uri.fsPath)) {
+        return;
+      }
+      outputChannel.appendLine(
+        "Convex project files changed, clearing cache...",
+      );
+      refreshProjects();
+    };
+    projectWatcher.onDidCreate(onProjectFile);
+    projectWatcher.onDidDelete(onProjectFile);
+    context.subscriptions.push(projectWatcher);
+  }
 
   outputChannel.appendLine(
     "Convex Navigator extension activated successfully!",
   );
   vscode.window.showInformationMessage(
-    `Convex Navigator: Found project at ${projectInfo.convexDir}`,
+    projects.length === 1
+      ? `Convex Navigator: Found project at ${projects[0].convexDir}`
+      : `Convex Navigator: Found ${projects.length} projects`,
   );
 }
 
+/**
+ * Register the features scoped to the convex directory of each project: the
+ * call hierarchy provider and the watchers that clear the project cache
+ */
+function registerProjectFeatures(
+  projects: ConvexProjectInfo[],
+  callHierarchyProvider: ConvexCallHierarchyProvider,
+): vscode.Disposable {
+  const disposables: vscode.Disposable[] = [];
+
+  // VS Code only asks the top-ranked call hierarchy provider of a document, so
+  // it is limited to convex directories to leave frontend files to TypeScript
+  const backendSelector: vscode.DocumentSelector = projects.flatMap(
+    (projectInfo) =>
+      ["typescript", "typescriptreact", "javascript", "javascriptreact"].map(
+        (language) => ({
+          language,
+          scheme: "file",
+          pattern: new vscode.RelativePattern(projectInfo.convexDir, "**/*"),
+        }),
+      ),
+  );
+  if (backendSelector.length > 0) {
+    disposables.push(
+      vscode.languages.registerCallHierarchyProvider(
+        backendSelector,
+        callHierarchyProvider,
+      ),
+    );
+  }
+
+  // Watch for file system changes in convex directories
+  for (const projectInfo of projects) {
+    const convexWatcher = vscode.workspace.createFileSystemWatcher(
+      `${projectInfo.convexDir}/**/*.{ts,tsx,js,jsx}`,
+      false,
+      false,
+      false,
+    );
+
+    convexWatcher.onDidCreate(() => {
+      outputChannel.appendLine("Convex file created, clearing cache...");
+      clearProjectCache();
+    });
+
+    convexWatcher.onDidDelete(() => {
+      outputChannel.appendLine("Convex file deleted, clearing cache...");
+      clearProjectCache();
+    });
+
+    disposables.push(convexWatcher);
+  }
+
+  return vscode.Disposable.from(...disposables);
+}
+
+/**
+ * Build the workspace index, showing progress in the status bar
+ */
+async function buildWorkspaceIndex(index: ConvexWorkspaceIndex): Promise<void> {
+  const startTime = Date.now();
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Window,
+      title: "Indexing Convex functions...",
+    },
+    () => index.build(),
+  );
+  if (index.isReady) {
+    outputChannel.appendLine(
+      `Workspace index built in ${Date.now() - startTime}ms`,
+    );
+  }
+}
+
 /**
  * Extension deactivation
  */
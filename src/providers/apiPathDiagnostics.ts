@@ -0,0 +1,515 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { getAllWrappers, getConfig } from "../config";
+import type { ConvexFunctionType, ConvexProjectInfo } from "../types";
+import {
+  findModuleFile,
+  getComponentProject,
+  getConvexProjectInfo,
+  getInstalledComponents,
+  isInternalFunctionType,
+} from "../resolver/pathResolver";
+import {
+  getExportedNames,
+  getFunctionType,
+  parseConvexFunctions,
+  parseSourceFile,
+} from "../resolver/functionDetector";
+import { findApiReferences } from "../resolver/referenceResolver";
+
+const DIAGNOSTIC_SOURCE = "Convex Navigator";
+const UNRESOLVED_CODE = "unresolved-api-path";
+const UPDATE_DELAY_MS = 500;
+
+/**
+ * Regex to extract the suggested name from a diagnostic message
+ */
+const SUGGESTION_PATTERN = /Did you mean "(\w+)"\?$/;
+
+/**
+ * Exports of a backend module, as far as the diagnostics are concerned
+ */
+interface ModuleExports {
+  /** Convex functions by name, with their type */
+  functions: Map<string, ConvexFunctionType>;
+  /** Every exported name, including non-Convex exports ("*" for export *) */
+  exportedNames: string[];
+}
+
+/**
+ * Why an API path could not be resolved
+ */
+interface UnresolvedApiPath {
+  message: string;
+  /** Index of the offending segment, counted after the api/internal root */
+  segmentIndex: number;
+}
+
+/**
+ * Compute the edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * Find the candidate closest to a misspelled name, if it is close enough
+ */
+export function findClosest(
+  name: string,
+  candidates: string[],
+): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(name.length / 3));
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = levenshtein(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance && distance <= maxDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Append a "Did you mean" hint to a message when a suggestion exists
+ */
+function withSuggestion(message: string, suggestion?: string): string {
+  return suggestion ? `${message} Did you mean "${suggestion}"?` : message;
+}
+
+/**
+ * Reports api.X.Y.Z / internal.X.Y.Z / components.X.Y.Z references that do
+ * not resolve to a backend module or exported Convex function
+ */
+export class ApiPathDiagnostics implements vscode.Disposable {
+  private readonly collection =
+    vscode.languages.createDiagnosticCollection("convex-api-paths");
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Schedule a check of a document shortly after the last edit
+   */
+  scheduleUpdate(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const timer = this.timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key);
+        void this.updateDocument(document);
+      }, UPDATE_DELAY_MS),
+    );
+  }
+
+  /**
+   * Re-check every open document (e.g., after backend files changed)
+   */
+  updateAll(): void {
+    for (const document of vscode.workspace.textDocuments) {
+      this.scheduleUpdate(document);
+    }
+  }
+
+  /**
+   * Remove diagnostics of a closed document
+   */
+  clear(document: vscode.TextDocument): void {
+    this.collection.delete(document.uri);
+  }
+
+  /**
+   * Check all API references in a document
+   */
+  async updateDocument(document: vscode.TextDocument): Promise<void> {
+    if (
+      document.uri.scheme !== "file" ||
+      !/\.(ts|tsx|js|jsx)$/.test(document.uri.fsPath) ||
+      document.uri.fsPath.includes("_generated")
+    ) {
+      return;
+    }
+
+    // Resolve against the project this document imports its api from
+    const projectInfo = await getConvexProjectInfo(
+      document.uri.fsPath,
+      document.getText(),
+    );
+    if (!projectInfo) {
+      return;
+    }
+
+    const sourceFile = parseSourceFile(document.uri.fsPath, document.getText());
+    const references = findApiReferences(
+      sourceFile,
+      getConfig().apiImportPatterns,
+    );
+
+    const moduleCache = new Map<string, ModuleExports | null>();
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const reference of references) {
+      const unresolved = reference.apiPath.startsWith("components.")
+        ? await this.checkComponentPath(
+            reference.apiPath,
+            projectInfo,
+            moduleCache,
+          )
+        : await this.checkApiPath(
+            reference.apiPath,
+            projectInfo.convexDir,
+            moduleCache,
+          );
+      if (!unresolved) {
+        continue;
+      }
+
+      const diagnostic = new vscode.Diagnostic(
+        this.getSegmentRange(
+          document,
+          reference.start,
+          reference.end,
+          reference.apiPath,
+          unresolved.segmentIndex,
+        ),
+        unresolved.message,
+        vscode.DiagnosticSeverity.Error,
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = UNRESOLVED_CODE;
+      diagnostics.push(diagnostic);
+    }
+
+    this.collection.set(document.uri, diagnostics);
+  }
+
+  /**
+   * Check whether a components.<name>.X.Y path resolves to an installed
+   * component and one of its public functions
+   */
+  private async checkComponentPath(
+    apiPath: string,
+    projectInfo: ConvexProjectInfo,
+    moduleCache: Map<string, ModuleExports | null>,
+  ): Promise<UnresolvedApiPath | null> {
+    const [, componentName, ...segments] = apiPath.split(".");
+    if (!componentName) {
+      return null;
+    }
+
+    const component = await getComponentProject(projectInfo, componentName);
+    if (!component) {
+      const installed = await getInstalledComponents(projectInfo);
+      return {
+        message: withSuggestion(
+          `Convex component "${componentName}" is not installed in convex.config.ts.`,
+          findClosest(
+            componentName,
+            installed.map((c) => c.component!.name),
+          ),
+        ),
+        segmentIndex: 0,
+      };
+    }
+
+    if (segments.length === 0) {
+      return null;
+    }
+
+    // Check the rest of the path inside the component, shifted by the name segment
+    const unresolved = await this.checkApiPath(
+      ["api", ...segments].join("."),
+      component.convexDir,
+      moduleCache,
+      componentName,
+    );
+    return unresolved
+      ? { ...unresolved, segmentIndex: unresolved.segmentIndex + 1 }
+      : null;
+  }
+
+  /**
+   * Check whether an API path resolves to a module or exported function
+   */
+  private async checkApiPath(
+    apiPath: string,
+    convexDir: string,
+    moduleCache: Map<string, ModuleExports | null>,
+    componentName?: string,
+  ): Promise<UnresolvedApiPath | null> {
+    const [root, ...segments] = apiPath.split(".");
+    if (segments.length === 0) {
+      return null;
+    }
+
+    for (let i = 0; i < segments.length; i++) {
+      const modulePath = segments.slice(0, i + 1).join("/");
+      const dirPath = path.join(convexDir, modulePath);
+      const isDirectory =
+        fs.existsSync(dirPath) && fs.statSync(dirPath).isDirectory();
+      const moduleFile = findModuleFile(convexDir, modulePath);
+
+      if (moduleFile) {
+        const functionName = segments[i + 1];
+        if (functionName === undefined) {
+          // A module reference (e.g., api.domains.contacts)
+          return null;
+        }
+
+        const moduleExports = await this.getModuleExports(
+          moduleFile,
+          moduleCache,
+        );
+        if (!moduleExports) {
+          return null;
+        }
+
+        const functionType = moduleExports.functions.get(functionName);
+        if (functionType) {
+          return this.checkVisibility(
+            root,
+            functionName,
+            functionType,
+            segments,
+            i + 1,
+            componentName,
+          );
+        }
+
+        // Exported but not detected as a Convex function (e.g., unknown wrapper)
+        if (
+          moduleExports.exportedNames.includes(functionName) ||
+          moduleExports.exportedNames.includes("*")
+        ) {
+          return null;
+        }
+
+        // Convex allows a folder and a module with the same name
+        if (isDirectory) {
+          continue;
+        }
+
+        return {
+          message: withSuggestion(
+            `Convex module "${modulePath}" has no exported function "${functionName}".`,
+            findClosest(functionName, [...moduleExports.functions.keys()]),
+          ),
+          segmentIndex: i + 1,
+        };
+      }
+
+      if (isDirectory) {
+        continue;
+      }
+
+      // Neither a module nor a folder: suggest a sibling module or folder
+      const parentDir = path.join(convexDir, ...segments.slice(0, i));
+      const siblings = fs.existsSync(parentDir)
+        ? fs
+            .readdirSync(parentDir)
+            .filter((entry) => entry !== "_generated")
+            .map((entry) => entry.replace(/\.(ts|tsx|js|jsx)$/, ""))
+        : [];
+
+      return {
+        message: withSuggestion(
+          `Convex module "${modulePath}" does not exist.`,
+          findClosest(segments[i], siblings),
+        ),
+        segmentIndex: i,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Check that public functions are referenced through "api" and internal ones through "internal"
+   * Only public functions of a component are reachable through components.<name>.
+   */
+  private checkVisibility(
+    root: string,
+    functionName: string,
+    functionType: ConvexFunctionType,
+    segments: string[],
+    segmentIndex: number,
+    componentName?: string,
+  ): UnresolvedApiPath | null {
+    if (componentName) {
+      return isInternalFunctionType(functionType)
+        ? {
+            message: `"${functionName}" is an internal function (${functionType}) of component "${componentName}" and cannot be called from outside the component.`,
+            segmentIndex,
+          }
+        : null;
+    }
+
+    const expectedRoot = isInternalFunctionType(functionType)
+      ? "internal"
+      : "api";
+    if (root === expectedRoot || (root !== "api" && root !== "internal")) {
+      return null;
+    }
+
+    const expectedPath = [
+      expectedRoot,
+      ...segments.slice(0, segmentIndex + 1),
+    ].join(".");
+    return {
+      message: `"${functionName}" is ${
+        expectedRoot === "internal" ? "an internal" : "a public"
+      } function (${functionType}); reference it through ${expectedPath}.`,
+      segmentIndex,
+    };
+  }
+
+  /**
+   * Parse a module and cache its exports for the current check
+   */
+  private async getModuleExports(
+    moduleFile: string,
+    moduleCache: Map<string, ModuleExports | null>,
+  ): Promise<ModuleExports | null> {
+    if (moduleCache.has(moduleFile)) {
+      return moduleCache.get(moduleFile) ?? null;
+    }
+
+    let moduleExports: ModuleExports | null = null;
+    try {
+      // Prefer the open document so unsaved backend edits are taken into account
+      const document = await vscode.workspace.openTextDocument(moduleFile);
+      const sourceFile = parseSourceFile(moduleFile, document.getText());
+      const functions = new Map<string, ConvexFunctionType>();
+      for (const func of parseConvexFunctions(sourceFile, getAllWrappers())) {
+        functions.set(func.name, getFunctionType(func.wrapper));
+      }
+      moduleExports = {
+        functions,
+        exportedNames: getExportedNames(sourceFile),
+      };
+    } catch (error) {
+      console.error(`Error reading module ${moduleFile}:`, error);
+    }
+
+    moduleCache.set(moduleFile, moduleExports);
+    return moduleExports;
+  }
+
+  /**
+   * Get the range of one path segment inside a reference expression
+   *
+   * The expression may start with an alias (e.g., contactsApi.createContct), so
+   * segments are aligned from the end. Falls back to the whole expression.
+   */
+  private getSegmentRange(
+    document: vscode.TextDocument,
+    start: number,
+    end: number,
+    apiPath: string,
+    segmentIndex: number,
+  ): vscode.Range {
+    const fullRange = new vscode.Range(
+      document.positionAt(start),
+      document.positionAt(end),
+    );
+    const text = document.getText(fullRange);
+    if (!/^[\w$]+(\.[\w$]+)*$/.test(text)) {
+      return fullRange;
+    }
+
+    const pathSegments = apiPath.split(".");
+    const textSegments = text.split(".");
+    // +1 for the api/internal root that segmentIndex does not count
+    const textIndex =
+      segmentIndex + 1 - (pathSegments.length - textSegments.length);
+    if (textIndex < 1 || textIndex >= textSegments.length) {
+      return fullRange;
+    }
+
+    const offset =
+      start + textSegments.slice(0, textIndex).join(".").length + 1;
+    return new vscode.Range(
+      document.positionAt(offset),
+      document.positionAt(offset + textSegments[textIndex].length),
+    );
+  }
+
+  dispose(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.collection.dispose();
+  }
+}
+
+/**
+ * Quick fixes for unresolved API paths: replace the segment with the suggested name
+ */
+export class ApiPathCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext,
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      if (
+        diagnostic.source !== DIAGNOSTIC_SOURCE ||
+        diagnostic.code !== UNRESOLVED_CODE
+      ) {
+        continue;
+      }
+
+      const suggestion = SUGGESTION_PATTERN.exec(diagnostic.message)?.[1];
+      if (!suggestion || !diagnostic.range.isSingleLine) {
+        continue;
+      }
+
+      // Only replace when the range covers exactly one ".segment" of a path,
+      // not a local alias (renaming it would break its other usages)
+      const { start } = diagnostic.range;
+      const current = document.getText(diagnostic.range);
+      const before =
+        start.character > 0
+          ? document.getText(new vscode.Range(start.translate(0, -1), start))
+          : "";
+      if (before !== "." || !/^[\w$]+$/.test(current)) {
+        continue;
+      }
+
+      const action = new vscode.CodeAction(
+        `Change to "${suggestion}"`,
+        vscode.CodeActionKind.QuickFix,
+      );
+      action.edit = new vscode.WorkspaceEdit();
+      action.edit.replace(document.uri, diagnostic.range, suggestion);
+      action.diagnostics = [diagnostic];
+      action.isPreferred = true;
+      actions.push(action);
+    }
+
+    return actions;
+  }
+}
@@ -0,0 +1,170 @@
+import * as vscode from "vscode";
+import { getConfig } from "../config";
+import type { ConvexAuthAuditEntry, ConvexAuthStatus } from "../types";
+import { auditFunctionAuth } from "../resolver/authDetector";
+
+/**
+ * Label and icon of each auth status, in display order
+ */
+const AUTH_STATUSES: Record<
+  ConvexAuthStatus,
+  { label: string; icon: vscode.ThemeIcon }
+> = {
+  unprotected: {
+    label: "Unprotected",
+    icon: new vscode.ThemeIcon(
+      "warning",
+      new vscode.ThemeColor("list.warningForeground"),
+    ),
+  },
+  identityCheck: {
+    label: "Identity check in handler",
+    icon: new vscode.ThemeIcon("pass"),
+  },
+  authenticatedWrapper: {
+    label: "Authenticated wrapper",
+    icon: new vscode.ThemeIcon("shield"),
+  },
+};
+
+/**
+ * A node in the Auth Audit tree
+ */
+export type AuthAuditTreeNode =
+  | {
+      kind: "status";
+      status: ConvexAuthStatus;
+      entries: ConvexAuthAuditEntry[];
+    }
+  | { kind: "function"; entry: ConvexAuthAuditEntry };
+
+/**
+ * Group audit entries by status, in display order
+ */
+function groupByStatus(
+  entries: ConvexAuthAuditEntry[],
+): Extract<AuthAuditTreeNode, { kind: "status" }>[] {
+  return (Object.keys(AUTH_STATUSES) as ConvexAuthStatus[])
+    .map((status) => ({
+      kind: "status" as const,
+      status,
+      entries: entries.filter((entry) => entry.status === status),
+    }))
+    .filter((group) => group.entries.length > 0);
+}
+
+/**
+ * VS Code Tree Data Provider implementation
+ * Lists public Convex functions by how they check authentication,
+ * with unprotected endpoints first
+ */
+export class AuthAuditTreeProvider implements vscode.TreeDataProvider<AuthAuditTreeNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  /**
+   * Reload the tree
+   */
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  getTreeItem(node: AuthAuditTreeNode): vscode.TreeItem {
+    if (node.kind === "status") {
+      const { label, icon } = AUTH_STATUSES[node.status];
+      const item = new vscode.TreeItem(
+        label,
+        node.status === "unprotected"
+          ? vscode.TreeItemCollapsibleState.Expanded
+          : vscode.TreeItemCollapsibleState.Collapsed,
+      );
+      item.iconPath = icon;
+      item.description = `${node.entries.length}`;
+      return item;
+    }
+
+    const { definition, status } = node.entry;
+    const item = new vscode.TreeItem(
+      definition.name,
+      vscode.TreeItemCollapsibleState.None,
+    );
+    item.iconPath = AUTH_STATUSES[status].icon;
+    item.description = `${definition.apiPath} · ${definition.wrapper}`;
+    item.tooltip = new vscode.MarkdownString(
+      `**${definition.name}** *(${definition.type})*\n\n\`${definition.apiPath}\`\n\n${AUTH_STATUSES[status].label}`,
+    );
+    item.command = {
+      command: "vscode.open",
+      title: "Go to Definition",
+      arguments: [
+        vscode.Uri.file(definition.filePath),
+        {
+          selection: new vscode.Range(
+            definition.line,
+            definition.column,
+            definition.line,
+            definition.column + definition.name.length,
+          ),
+        },
+      ],
+    };
+    return item;
+  }
+
+  async getChildren(node?: AuthAuditTreeNode): Promise<AuthAuditTreeNode[]> {
+    if (node) {
+      return node.kind === "status"
+        ? node.entries.map((entry) => ({ kind: "function", entry }))
+        : [];
+    }
+    return groupByStatus(await auditFunctionAuth());
+  }
+}
+
+/**
+ * Command handler for "Export Auth Audit Report"
+ * Opens a Markdown report of every public function grouped by auth status
+ */
+export async function exportAuthAuditCommand(): Promise<void> {
+  const entries = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "Auditing Convex function auth...",
+    },
+    () => auditFunctionAuth(),
+  );
+
+  const { authenticatedWrappers } = getConfig();
+  const lines = [
+    "# Convex Auth Audit",
+    "",
+    `Generated ${new Date().toISOString()}`,
+    "",
+    `Authenticated wrappers: ${
+      authenticatedWrappers.length > 0
+        ? authenticatedWrappers.map((w) => `\`${w}\``).join(", ")
+        : "none (set `convexNavigator.authenticatedWrappers`)"
+    }`,
+  ];
+
+  for (const group of groupByStatus(entries)) {
+    lines.push(
+      "",
+      `## ${AUTH_STATUSES[group.status].label} (${group.entries.length})`,
+      "",
+      "| Function | Type | Wrapper | Location |",
+      "| --- | --- | --- | --- |",
+    );
+    for (const { definition } of group.entries) {
+      lines.push(
+        `| \`${definition.apiPath}\` | ${definition.type} | \`${definition.wrapper}\` | ${vscode.workspace.asRelativePath(definition.filePath)}:${definition.line + 1} |`,
+      );
+    }
+  }
+
+  const document = await vscode.workspace.openTextDocument({
+    content: lines.join("\n") + "\n",
+    language: "markdown",
+  });
+  await vscode.window.showTextDocument(document);
+}
@@ -0,0 +1,374 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as ts from "typescript";
+import { getAllWrappers, getConfig } from "../config";
+import type { ConvexFunctionDefinition } from "../types";
+import { resolveApiPath } from "../resolver/pathResolver";
+import {
+  findConvexFunctionAtPosition,
+  findConvexFunctionsInFile,
+  parseConvexFunctions,
+  parseSourceFile,
+} from "../resolver/functionDetector";
+import { findApiReferences } from "../resolver/referenceResolver";
+import { searchForUsages } from "./referenceProvider";
+
+/**
+ * Convex function definitions of the items created by this provider
+ * VS Code passes the same item objects back when asking for their calls, so
+ * other items (components, hooks, plain functions) are the ones missing here.
+ */
+const convexItems = new WeakMap<
+  vscode.CallHierarchyItem,
+  ConvexFunctionDefinition
+>();
+
+/**
+ * The named function, component or hook that contains a call site
+ */
+interface EnclosingOwner {
+  name: string;
+  /** Node of the owner's name, used as selection range */
+  nameNode: ts.Node;
+  /** Node of the whole owner declaration */
+  node: ts.Node;
+}
+
+/**
+ * Create a call hierarchy item for a Convex function definition
+ */
+function toConvexItem(
+  definition: ConvexFunctionDefinition,
+): vscode.CallHierarchyItem {
+  const range = new vscode.Range(
+    definition.line,
+    definition.column,
+    definition.line,
+    definition.column + definition.name.length,
+  );
+  const item = new vscode.CallHierarchyItem(
+    vscode.SymbolKind.Function,
+    definition.name,
+    definition.apiPath,
+    vscode.Uri.file(definition.filePath),
+    range,
+    range,
+  );
+  convexItems.set(item, definition);
+  return item;
+}
+
+/**
+ * Resolve an API path referenced from a file to its Convex function definition
+ */
+async function findDefinition(
+  apiPath: string,
+  fromFile: string,
+): Promise<ConvexFunctionDefinition | null> {
+  const resolved = await resolveApiPath(apiPath, fromFile);
+  if (!resolved) {
+    return null;
+  }
+  const functions = await findConvexFunctionsInFile(resolved.filePath);
+  return functions.find((f) => f.name === resolved.functionName) ?? null;
+}
+
+/**
+ * Find the deepest node containing an offset
+ */
+function findNodeAtOffset(sourceFile: ts.SourceFile, offset: number): ts.Node {
+  let current: ts.Node = sourceFile;
+  let child: ts.Node | undefined;
+  do {
+    child = ts.forEachChild(current, (node) =>
+      node.getStart(sourceFile) <= offset && offset < node.getEnd()
+        ? node
+        : undefined,
+    );
+    if (child) {
+      current = child;
+    }
+  } while (child);
+  return current;
+}
+
+/**
+ * Find the name of the declaration that owns a function expression
+ * e.g., const Component = () => {...}, export const x = mutation({ handler: async () => {...} })
+ */
+function getFunctionOwner(fn: ts.Node): EnclosingOwner | null {
+  let current = fn;
+  while (
+    ts.isCallExpression(current.parent) ||
+    ts.isObjectLiteralExpression(current.parent) ||
+    ts.isPropertyAssignment(current.parent) ||
+    ts.isParenthesizedExpression(current.parent) ||
+    ts.isAsExpression(current.parent)
+  ) {
+    current = current.parent;
+  }
+
+  const parent = current.parent;
+  if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+    return { name: parent.name.text, nameNode: parent.name, node: parent };
+  }
+  if (ts.isExportAssignment(parent)) {
+    return { name: "default", nameNode: parent, node: parent };
+  }
+  return null;
+}
+
+/**
+ * Find the named function, component or hook enclosing an offset
+ * Anonymous callbacks (e.g., onClick handlers) are attributed to their owner.
+ */
+function findEnclosingOwner(
+  sourceFile: ts.SourceFile,
+  offset: number,
+): EnclosingOwner | null {
+  let node: ts.Node | undefined = findNodeAtOffset(sourceFile, offset);
+
+  while (node) {
+    if (
+      (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) &&
+      node.name
+    ) {
+      return { name: node.name.getText(sourceFile), nameNode: node.name, node };
+    }
+    if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+      const owner = getFunctionOwner(node);
+      if (owner) {
+        return owner;
+      }
+    }
+    node = node.parent;
+  }
+
+  return null;
+}
+
+/**
+ * Convert a node's extent to a VS Code range
+ */
+function toRange(sourceFile: ts.SourceFile, node: ts.Node): vscode.Range {
+  const start = sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(sourceFile),
+  );
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  return new vscode.Range(start.line, start.character, end.line, end.character);
+}
+
+/**
+ * VS Code Call Hierarchy Provider implementation
+ *
+ * Incoming calls of a Convex function are the components, hooks and backend
+ * functions that reference it (useQuery, ctx.runMutation, ctx.scheduler, ...).
+ * Outgoing calls are the Convex functions referenced inside a function.
+ */
+export class ConvexCallHierarchyProvider
+  implements vscode.CallHierarchyProvider
+{
+  async prepareCallHierarchy(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.CallHierarchyItem | null> {
+    // Backend: cursor on a Convex function definition
+    const definition = await findConvexFunctionAtPosition(document, position);
+    if (definition) {
+      return toConvexItem(definition);
+    }
+
+    // Cursor on an api.X.Y.Z reference (e.g., in ctx.runMutation)
+    const sourceFile = parseSourceFile(document.uri.fsPath, document.getText());
+    const offset = document.offsetAt(position);
+    const reference = findApiReferences(
+      sourceFile,
+      getConfig().apiImportPatterns,
+    ).find((r) => r.start <= offset && offset <= r.end);
+    if (!reference) {
+      return null;
+    }
+
+    const target = await findDefinition(reference.apiPath, document.uri.fsPath);
+    return target ? toConvexItem(target) : null;
+  }
+
+  async provideCallHierarchyIncomingCalls(
+    item: vscode.CallHierarchyItem,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.CallHierarchyIncomingCall[]> {
+    const definition = convexItems.get(item);
+    if (!definition) {
+      return this.provideTypeScriptIncomingCalls(item);
+    }
+
+    const result = await searchForUsages(
+      definition.apiPath,
+      definition.name,
+      definition.filePath,
+    );
+    if (token.isCancellationRequested) {
+      return [];
+    }
+
+    const calls = new Map<
+      string,
+      { from: vscode.CallHierarchyItem; ranges: vscode.Range[] }
+    >();
+
+    // Group usages by the function, component or hook that contains them
+    const usagesByFile = new Map<string, typeof result.usages>();
+    for (const usage of result.usages) {
+      // Mentions in comments and strings are not calls
+      if (usage.kind === "comment") {
+        continue;
+      }
+      const usages = usagesByFile.get(usage.filePath) ?? [];
+      usages.push(usage);
+      usagesByFile.set(usage.filePath, usages);
+    }
+
+    for (const [filePath, usages] of usagesByFile) {
+      const document = await vscode.workspace.openTextDocument(filePath);
+      const sourceFile = parseSourceFile(filePath, document.getText());
+      const backendFunctions = usages.some((u) => u.isServerSide)
+        ? await findConvexFunctionsInFile(filePath)
+        : [];
+
+      for (const usage of usages) {
+        const range = new vscode.Range(
+          usage.line,
+          usage.column,
+          usage.line,
+          usage.column + usage.length,
+        );
+        const owner = findEnclosingOwner(
+          sourceFile,
+          document.offsetAt(range.start),
+        );
+        const key = `${filePath}:${owner ? owner.nameNode.getStart(sourceFile) : -1}`;
+
+        if (!calls.has(key)) {
+          const convexOwner = owner
+            ? backendFunctions.find((f) => f.name === owner.name)
+            : undefined;
+          const relativePath = vscode.workspace.asRelativePath(filePath);
+
+          let from: vscode.CallHierarchyItem;
+          if (convexOwner) {
+            from = toConvexItem(convexOwner);
+          } else if (owner) {
+            from = new vscode.CallHierarchyItem(
+              /^use[A-Z]/.test(owner.name) || !/^[A-Z]/.test(owner.name)
+                ? vscode.SymbolKind.Function
+                : vscode.SymbolKind.Class,
+              owner.name,
+              relativePath,
+              document.uri,
+              toRange(sourceFile, owner.node),
+              toRange(sourceFile, owner.nameNode),
+            );
+          } else {
+            // Top-level usage outside of any function
+            from = new vscode.CallHierarchyItem(
+              vscode.SymbolKind.Module,
+              path.basename(filePath),
+              relativePath,
+              document.uri,
+              new vscode.Range(0, 0, 0, 0),
+              new vscode.Range(0, 0, 0, 0),
+            );
+          }
+          calls.set(key, { from, ranges: [] });
+        }
+        calls.get(key)!.ranges.push(range);
+      }
+    }
+
+    return [...calls.values()].map(
+      ({ from, ranges }) => new vscode.CallHierarchyIncomingCall(from, ranges),
+    );
+  }
+
+  async provideCallHierarchyOutgoingCalls(
+    item: vscode.CallHierarchyItem,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.CallHierarchyOutgoingCall[]> {
+    const document = await vscode.workspace.openTextDocument(item.uri);
+    const sourceFile = parseSourceFile(item.uri.fsPath, document.getText());
+
+    // Convex items only cover their name; use the whole declaration instead
+    let start = document.offsetAt(item.range.start);
+    let end = document.offsetAt(item.range.end);
+    const definition = convexItems.get(item);
+    if (definition) {
+      const func = parseConvexFunctions(sourceFile, getAllWrappers()).find(
+        (f) => f.name === definition.name,
+      );
+      if (func) {
+        start = func.declarationStart;
+        end = func.declarationEnd;
+      }
+    }
+
+    const references = findApiReferences(
+      sourceFile,
+      getConfig().apiImportPatterns,
+    ).filter((r) => r.start >= start && r.end <= end);
+
+    const calls = new Map<
+      string,
+      { to: vscode.CallHierarchyItem; ranges: vscode.Range[] }
+    >();
+    for (const reference of references) {
+      if (token.isCancellationRequested) {
+        return [];
+      }
+      const range = new vscode.Range(
+        document.positionAt(reference.start),
+        document.positionAt(reference.end),
+      );
+      const existing = calls.get(reference.apiPath);
+      if (existing) {
+        existing.ranges.push(range);
+        continue;
+      }
+      const target = await findDefinition(reference.apiPath, item.uri.fsPath);
+      if (target) {
+        calls.set(reference.apiPath, {
+          to: toConvexItem(target),
+          ranges: [range],
+        });
+      }
+    }
+
+    return [...calls.values()].map(
+      ({ to, ranges }) => new vscode.CallHierarchyOutgoingCall(to, ranges),
+    );
+  }
+
+  /**
+   * Continue the hierarchy for components and hooks with the TypeScript provider
+   */
+  private async provideTypeScriptIncomingCalls(
+    item: vscode.CallHierarchyItem,
+  ): Promise<vscode.CallHierarchyIncomingCall[]> {
+    try {
+      const items = await vscode.commands.executeCommand<
+        vscode.CallHierarchyItem[]
+      >("vscode.prepareCallHierarchy", item.uri, item.selectionRange.start);
+      const tsItem = items?.[0];
+      if (!tsItem) {
+        return [];
+      }
+      return (
+        (await vscode.commands.executeCommand<
+          vscode.CallHierarchyIncomingCall[]
+        >("vscode.provideIncomingCalls", tsItem)) ?? []
+      );
+    } catch (error) {
+      console.error("Error getting TypeScript incoming calls:", error);
+      return [];
+    }
+  }
+}
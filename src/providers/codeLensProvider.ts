@@ -0,0 +1,169 @@
+import * as vscode from "vscode";
+import { getConfig } from "../config";
+import type { ConvexFunctionDefinition } from "../types";
+import {
+  getConvexProjectInfo,
+  isConvexBackendFile,
+} from "../resolver/pathResolver";
+import {
+  findConvexFunctionsInSource,
+  parseSourceFile,
+} from "../resolver/functionDetector";
+import { getHttpRoutes } from "../resolver/httpRouteResolver";
+import { searchForUsages } from "./referenceProvider";
+import { formatRoute } from "./httpRouteProvider";
+
+/**
+ * A code lens above a Convex function export, resolved lazily with usage counts
+ */
+class ConvexFunctionCodeLens extends vscode.CodeLens {
+  constructor(
+    range: vscode.Range,
+    readonly definition: ConvexFunctionDefinition,
+  ) {
+    super(range);
+  }
+}
+
+/**
+ * Format a count with a singular or plural noun (e.g., "1 server caller", "3 server callers")
+ */
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * VS Code CodeLens Provider implementation
+ * Shows frontend usage, server caller and cron counts above each Convex function export
+ */
+export class ConvexCodeLensProvider implements vscode.CodeLensProvider {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  /**
+   * Recompute all code lenses (e.g., after frontend files changed)
+   */
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  async provideCodeLenses(
+    document: vscode.TextDocument,
+    _token: vscode.CancellationToken,
+  ): Promise<vscode.CodeLens[]> {
+    if (
+      !getConfig().enableCodeLens ||
+      !(await isConvexBackendFile(document.uri.fsPath))
+    ) {
+      return [];
+    }
+
+    // Parse the document text so lenses follow unsaved edits
+    const sourceFile = parseSourceFile(document.uri.fsPath, document.getText());
+    const functions = await findConvexFunctionsInSource(
+      document.uri.fsPath,
+      sourceFile,
+    );
+
+    return functions.map(
+      (definition) =>
+        new ConvexFunctionCodeLens(
+          new vscode.Range(
+            definition.line,
+            definition.column,
+            definition.line,
+            definition.column + definition.name.length,
+          ),
+          definition,
+        ),
+    );
+  }
+
+  async resolveCodeLens(
+    codeLens: vscode.CodeLens,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.CodeLens> {
+    if (!(codeLens instanceof ConvexFunctionCodeLens)) {
+      return codeLens;
+    }
+
+    const { definition } = codeLens;
+
+    // HTTP actions are called through the router, not through api.*
+    if (definition.type === "httpAction") {
+      return this.resolveHttpActionCodeLens(codeLens);
+    }
+
+    const result = await searchForUsages(
+      definition.apiPath,
+      definition.name,
+      definition.filePath,
+    );
+    if (token.isCancellationRequested) {
+      return codeLens;
+    }
+
+    // Text matches in comments and strings are not calls
+    const usages = result.usages.filter((u) => u.kind !== "comment");
+    const crons = usages.filter((u) => u.kind === "cron").length;
+    const serverCallers = usages.filter((u) => u.isServerSide).length - crons;
+    const frontendUsages = usages.length - serverCallers - crons;
+
+    const parts: string[] = [];
+    if (frontendUsages > 0) {
+      parts.push(pluralize(frontendUsages, "frontend usage"));
+    }
+    if (serverCallers > 0) {
+      parts.push(pluralize(serverCallers, "server caller"));
+    }
+    if (crons > 0) {
+      parts.push(pluralize(crons, "cron"));
+    }
+
+    codeLens.command = {
+      title: parts.length > 0 ? parts.join(" · ") : "no usages",
+      tooltip: `Find usages of ${definition.apiPath}`,
+      command: "convexNavigator.showUsageResults",
+      arguments: [definition],
+    };
+    return codeLens;
+  }
+
+  /**
+   * Show the routes an HTTP action handles (e.g., "POST /api/webhook")
+   */
+  private async resolveHttpActionCodeLens(
+    codeLens: ConvexFunctionCodeLens,
+  ): Promise<vscode.CodeLens> {
+    const { definition } = codeLens;
+    const projectInfo = await getConvexProjectInfo(definition.filePath);
+    const routes = projectInfo
+      ? getHttpRoutes(projectInfo.convexDir).filter(
+          (route) =>
+            route.handler?.filePath === definition.filePath &&
+            route.handler.name === definition.name,
+        )
+      : [];
+
+    const [firstRoute] = routes;
+    codeLens.command = firstRoute
+      ? {
+          title: routes.map(formatRoute).join(" · "),
+          tooltip: "Go to the route in the HTTP router",
+          command: "vscode.open",
+          arguments: [
+            vscode.Uri.file(firstRoute.filePath),
+            {
+              selection: new vscode.Range(
+                firstRoute.line,
+                firstRoute.column,
+                firstRoute.line,
+                firstRoute.column,
+              ),
+            },
+          ],
+        }
+      : { title: "no routes", command: "" };
+    return codeLens;
+  }
+}
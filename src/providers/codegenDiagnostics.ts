@@ -0,0 +1,710 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import * as ts from "typescript";
+import { getAllWrappers, getConfig } from "../config";
+import type { ConvexProjectInfo } from "../types";
+import {
+  MODULE_EXTENSIONS,
+  findModuleFile,
+  getConvexProjects,
+  getInstalledComponents,
+  isInsideDirectory,
+  isInternalFunctionType,
+} from "../resolver/pathResolver";
+import {
+  getExportedNames,
+  getFunctionType,
+  parseConvexFunctions,
+  parseSourceFile,
+} from "../resolver/functionDetector";
+
+const DIAGNOSTIC_SOURCE = "Convex Navigator";
+const STALE_CODEGEN_CODE = "stale-codegen";
+const UPDATE_DELAY_MS = 1000;
+const TERMINAL_NAME = "Convex Codegen";
+const CODEGEN_COMMAND = "npx convex codegen";
+
+/**
+ * Files in the convex directory that are never part of the generated API
+ */
+const SPECIAL_FILES = /^(schema|convex\.config)\.(ts|js)$/;
+
+/**
+ * What the generated API lists for a project
+ */
+interface GeneratedApi {
+  /** Module paths (e.g., "domains/contacts") with the line of their import */
+  modules: Map<string, number>;
+  /** Names of components declared in the generated API, if any */
+  components?: string[];
+  /**
+   * API paths of the functions listed by a static API (codegen.staticApi), with
+   * their line. Unset for the default API, which takes function names from the
+   * modules' types, so added or removed exports need no codegen.
+   */
+  functions?: Map<string, number>;
+}
+
+/**
+ * Differences between the generated API and the convex directory of a project
+ */
+interface CodegenDrift {
+  projectInfo: ConvexProjectInfo;
+  generatedApiPath: string;
+  /** Whether the generated API is static, listing functions instead of modules */
+  staticApi: boolean;
+  /** Modules present in the convex directory but not in the generated API */
+  missingModules: string[];
+  /** Modules listed in the generated API that no longer exist */
+  deletedModules: { modulePath: string; line: number }[];
+  /** Components installed in convex.config.ts but not in the generated API */
+  missingComponents: string[];
+  /** Components in the generated API that are no longer installed */
+  removedComponents: string[];
+  /** Exported functions missing from a static API */
+  missingFunctions: { apiPath: string; filePath: string; line: number }[];
+  /** Functions listed by a static API that are no longer exported */
+  removedFunctions: { apiPath: string; line: number }[];
+}
+
+/**
+ * Check if a path relative to the convex directory is bundled as a Convex module
+ * Mirrors the rules of the Convex bundler: no dotfiles, no files with several
+ * dots (e.g., foo.test.ts, foo.d.ts), no schema or convex.config.
+ */
+function isConvexModule(relativePath: string): boolean {
+  const base = path.basename(relativePath);
+  return (
+    MODULE_EXTENSIONS.includes(path.extname(base)) &&
+    !base.startsWith(".") &&
+    !base.startsWith("#") &&
+    (base.match(/\./g) ?? []).length === 1 &&
+    !/\s/.test(relativePath) &&
+    !SPECIAL_FILES.test(relativePath)
+  );
+}
+
+/**
+ * List the module paths of a convex directory (e.g., "domains/contacts")
+ */
+function findConvexModules(convexDir: string, skipDirs: string[]): string[] {
+  const modules: string[] = [];
+
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (
+          entry.name !== "_generated" &&
+          entry.name !== "_deps" &&
+          entry.name !== "node_modules" &&
+          !entry.name.startsWith(".") &&
+          !skipDirs.includes(fullPath)
+        ) {
+          walk(fullPath);
+        }
+        continue;
+      }
+
+      const relativePath = path.relative(convexDir, fullPath);
+      if (entry.isFile() && isConvexModule(relativePath)) {
+        modules.push(
+          relativePath
+            .replace(/\.[^.]+$/, "")
+            .split(path.sep)
+            .join("/"),
+        );
+      }
+    }
+  };
+
+  try {
+    walk(convexDir);
+  } catch (error) {
+    console.error(`Error listing Convex modules in ${convexDir}:`, error);
+  }
+  return modules;
+}
+
+/**
+ * Parse the module imports and component declarations of _generated/api
+ *
+ * The generated API imports every module:
+ *   import type * as domains_contacts from "../domains/contacts.js";
+ * and declares installed components:
+ *   export declare const components: { rateLimiter: {...} };
+ * A static API lists every function instead of importing the modules:
+ *   export declare const api: { domains: { contacts: { create: FunctionReference<...> } } };
+ */
+function readGeneratedApi(
+  generatedApiPath: string,
+  convexDir: string,
+): GeneratedApi | null {
+  let sourceFile: ts.SourceFile;
+  try {
+    sourceFile = parseSourceFile(
+      generatedApiPath,
+      fs.readFileSync(generatedApiPath, "utf8"),
+    );
+  } catch {
+    return null;
+  }
+
+  const generated: GeneratedApi = { modules: new Map() };
+  const generatedDir = path.dirname(generatedApiPath);
+
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      statement.moduleSpecifier.text.startsWith("../")
+    ) {
+      const modulePath = path
+        .relative(
+          convexDir,
+          path.resolve(generatedDir, statement.moduleSpecifier.text),
+        )
+        .replace(/\.[^./\\]+$/, "")
+        .split(path.sep)
+        .join("/");
+      const { line } = sourceFile.getLineAndCharacterOfPosition(
+        statement.getStart(sourceFile),
+      );
+      generated.modules.set(modulePath, line);
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name)) {
+          continue;
+        }
+        const name = declaration.name.text;
+        const typeNode = getDeclaredType(declaration);
+        if (name === "components") {
+          generated.components = getMemberNames(typeNode);
+        } else if (
+          (name === "api" || name === "internal") &&
+          typeNode &&
+          ts.isTypeLiteralNode(typeNode)
+        ) {
+          generated.functions ??= new Map();
+          collectFunctionReferences(
+            sourceFile,
+            typeNode,
+            name,
+            generated.functions,
+          );
+        }
+      }
+    }
+  }
+
+  return generated;
+}
+
+/**
+ * Get the type of a declaration in _generated/api
+ * (a type annotation in api.d.ts, an "as" cast in api.ts)
+ */
+function getDeclaredType(
+  declaration: ts.VariableDeclaration,
+): ts.TypeNode | undefined {
+  let typeNode = declaration.type;
+  let initializer = declaration.initializer;
+  while (!typeNode && initializer && ts.isAsExpression(initializer)) {
+    typeNode = initializer.type;
+    initializer = initializer.expression;
+  }
+  return typeNode;
+}
+
+/**
+ * Get the name of a type literal member without quotes
+ */
+function getMemberName(member: ts.TypeElement): string | undefined {
+  return member.name?.getText().replace(/^["']|["']$/g, "");
+}
+
+/**
+ * Get the member names of a type literal (e.g., the installed components)
+ */
+function getMemberNames(typeNode: ts.TypeNode | undefined): string[] {
+  if (!typeNode || !ts.isTypeLiteralNode(typeNode)) {
+    return [];
+  }
+  return typeNode.members
+    .map(getMemberName)
+    .filter((name): name is string => !!name);
+}
+
+/**
+ * Collect the FunctionReference leaves of a static API type by API path
+ * e.g., { domains: { contacts: { create: FunctionReference<...> } } } -> "api.domains.contacts.create"
+ */
+function collectFunctionReferences(
+  sourceFile: ts.SourceFile,
+  typeNode: ts.TypeLiteralNode,
+  prefix: string,
+  functions: Map<string, number>,
+): void {
+  for (const member of typeNode.members) {
+    const name = getMemberName(member);
+    if (!name || !ts.isPropertySignature(member) || !member.type) {
+      continue;
+    }
+    const apiPath = `${prefix}.${name}`;
+    if (ts.isTypeLiteralNode(member.type)) {
+      collectFunctionReferences(sourceFile, member.type, apiPath, functions);
+    } else if (
+      ts.isTypeReferenceNode(member.type) &&
+      member.type.typeName.getText() === "FunctionReference"
+    ) {
+      const { line } = sourceFile.getLineAndCharacterOfPosition(
+        member.getStart(sourceFile),
+      );
+      functions.set(apiPath, line);
+    }
+  }
+}
+
+/**
+ * Compare the functions listed by a static API with the exports of the modules
+ */
+function findFunctionDrift(
+  convexDir: string,
+  modules: string[],
+  functions: Map<string, number>,
+): Pick<CodegenDrift, "missingFunctions" | "removedFunctions"> {
+  const missingFunctions: CodegenDrift["missingFunctions"] = [];
+  const exportedNames = new Map<string, string[]>();
+  const wrappers = getAllWrappers();
+
+  for (const modulePath of modules) {
+    const filePath = findModuleFile(convexDir, modulePath);
+    if (!filePath) {
+      continue;
+    }
+    let sourceFile: ts.SourceFile;
+    try {
+      sourceFile = parseSourceFile(filePath, fs.readFileSync(filePath, "utf8"));
+    } catch {
+      continue;
+    }
+    exportedNames.set(modulePath, getExportedNames(sourceFile));
+
+    for (const func of parseConvexFunctions(sourceFile, wrappers)) {
+      const type = getFunctionType(func.wrapper);
+      // HTTP actions are only reachable through the router
+      if (type === "httpAction" || type === "unknown") {
+        continue;
+      }
+      const root = isInternalFunctionType(type) ? "internal" : "api";
+      const apiPath = `${root}.${modulePath.split("/").join(".")}.${func.name}`;
+      if (!functions.has(apiPath)) {
+        const { line } = sourceFile.getLineAndCharacterOfPosition(
+          func.nameStart,
+        );
+        missingFunctions.push({ apiPath, filePath, line });
+      }
+    }
+  }
+
+  // Functions of custom wrappers are not detected, so only names that are no
+  // longer exported at all count as removed
+  const removedFunctions = [...functions]
+    .filter(([apiPath]) => {
+      const segments = apiPath.split(".");
+      const names = exportedNames.get(segments.slice(1, -1).join("/"));
+      return (
+        !names ||
+        (!names.includes(segments[segments.length - 1]) && !names.includes("*"))
+      );
+    })
+    .map(([apiPath, line]) => ({ apiPath, line }));
+
+  return { missingFunctions, removedFunctions };
+}
+
+/**
+ * Compare the generated API of a project with its convex directory
+ * Returns null when the project has no generated API.
+ */
+async function findCodegenDrift(
+  projectInfo: ConvexProjectInfo,
+  projects: ConvexProjectInfo[],
+): Promise<CodegenDrift | null> {
+  const { convexDir, generatedApiPath } = projectInfo;
+  if (!generatedApiPath || !fs.existsSync(generatedApiPath)) {
+    return null;
+  }
+
+  const generated = readGeneratedApi(generatedApiPath, convexDir);
+  if (!generated) {
+    return null;
+  }
+
+  // Local components inside the convex directory are not app modules
+  const nestedDirs = projects
+    .map((p) => p.convexDir)
+    .filter((dir) => dir !== convexDir && isInsideDirectory(dir, convexDir));
+  const modules = findConvexModules(convexDir, nestedDirs);
+
+  const installed = (await getInstalledComponents(projectInfo)).map(
+    (c) => c.component!.name,
+  );
+  const generatedComponents = generated.components ?? [];
+
+  // A static API lists functions instead of importing modules
+  const { functions } = generated;
+  const drift: CodegenDrift = {
+    projectInfo,
+    generatedApiPath,
+    staticApi: !!functions,
+    missingModules: functions
+      ? []
+      : modules.filter((m) => !generated.modules.has(m)),
+    deletedModules: [...generated.modules]
+      .filter(([modulePath]) => !modules.includes(modulePath))
+      .map(([modulePath, line]) => ({ modulePath, line })),
+    missingComponents: installed.filter(
+      (name) => !generatedComponents.includes(name),
+    ),
+    removedComponents: generatedComponents.filter(
+      (name) => !installed.includes(name),
+    ),
+    ...(functions
+      ? findFunctionDrift(convexDir, modules, functions)
+      : { missingFunctions: [], removedFunctions: [] }),
+  };
+
+  return drift;
+}
+
+/**
+ * Check if the generated API differs from the convex directory
+ */
+function isStale(drift: CodegenDrift): boolean {
+  return (
+    drift.missingModules.length > 0 ||
+    drift.deletedModules.length > 0 ||
+    drift.missingComponents.length > 0 ||
+    drift.removedComponents.length > 0 ||
+    drift.missingFunctions.length > 0 ||
+    drift.removedFunctions.length > 0
+  );
+}
+
+/**
+ * Describe a drift in one line for the status bar tooltip
+ */
+function describeDrift(drift: CodegenDrift): string {
+  const parts: string[] = [];
+  if (drift.missingModules.length > 0) {
+    parts.push(`${drift.missingModules.length} new module(s)`);
+  }
+  if (drift.deletedModules.length > 0) {
+    parts.push(`${drift.deletedModules.length} deleted module(s)`);
+  }
+  if (drift.missingComponents.length > 0) {
+    parts.push(`${drift.missingComponents.length} new component(s)`);
+  }
+  if (drift.removedComponents.length > 0) {
+    parts.push(`${drift.removedComponents.length} removed component(s)`);
+  }
+  if (drift.missingFunctions.length > 0) {
+    parts.push(`${drift.missingFunctions.length} new function(s)`);
+  }
+  if (drift.removedFunctions.length > 0) {
+    parts.push(`${drift.removedFunctions.length} removed function(s)`);
+  }
+  return `${vscode.workspace.asRelativePath(drift.projectInfo.convexDir)}: ${parts.join(", ")}`;
+}
+
+/**
+ * Warns when _generated/api is out of date with the modules and components
+ * of the convex directory, in the status bar and as diagnostics
+ */
+export class CodegenDiagnostics implements vscode.Disposable {
+  private readonly collection =
+    vscode.languages.createDiagnosticCollection("convex-codegen");
+  private readonly statusBarItem = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Left,
+  );
+  private readonly disposables: vscode.Disposable[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private staleProjects: ConvexProjectInfo[] = [];
+  /** Whether a project has a static API, whose functions follow the exports */
+  private comparesExports = false;
+
+  constructor() {
+    this.statusBarItem.command = "convexNavigator.runCodegen";
+    this.statusBarItem.backgroundColor = new vscode.ThemeColor(
+      "statusBarItem.warningBackground",
+    );
+
+    // Modules are added or removed, or codegen rewrote the generated API
+    const moduleWatcher = vscode.workspace.createFileSystemWatcher(
+      "**/*.{ts,tsx,js,jsx,mjs,cjs}",
+    );
+    moduleWatcher.onDidCreate(() => this.scheduleUpdate());
+    moduleWatcher.onDidDelete(() => this.scheduleUpdate());
+    // Exports only matter for static APIs
+    moduleWatcher.onDidChange(() => {
+      if (this.comparesExports) {
+        this.scheduleUpdate();
+      }
+    });
+
+    const generatedWatcher = vscode.workspace.createFileSystemWatcher(
+      "**/{_generated/api.ts,_generated/api.d.ts,convex.config.ts}",
+    );
+    generatedWatcher.onDidCreate(() => this.scheduleUpdate());
+    generatedWatcher.onDidChange(() => this.scheduleUpdate());
+    generatedWatcher.onDidDelete(() => this.scheduleUpdate());
+
+    this.disposables.push(moduleWatcher, generatedWatcher);
+  }
+
+  /**
+   * Projects whose generated API is out of date
+   */
+  get stale(): readonly ConvexProjectInfo[] {
+    return this.staleProjects;
+  }
+
+  /**
+   * Schedule a new check shortly after the last change
+   */
+  scheduleUpdate(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.update();
+    }, UPDATE_DELAY_MS);
+  }
+
+  /**
+   * Compare the generated API of every project with its convex directory
+   */
+  async update(): Promise<void> {
+    if (!getConfig().codegenCheck) {
+      this.reset();
+      return;
+    }
+
+    // Components from packages ship their own generated code
+    const projects = await getConvexProjects();
+    const drifts: CodegenDrift[] = [];
+    let comparesExports = false;
+    for (const projectInfo of projects) {
+      if (projectInfo.component) {
+        continue;
+      }
+      const drift = await findCodegenDrift(projectInfo, projects);
+      comparesExports ||= !!drift?.staticApi;
+      if (drift && isStale(drift)) {
+        drifts.push(drift);
+      }
+    }
+
+    this.reset();
+    this.comparesExports = comparesExports;
+    this.staleProjects = drifts.map((d) => d.projectInfo);
+    if (drifts.length === 0) {
+      return;
+    }
+
+    const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+    const addDiagnostic = (filePath: string, line: number, message: string) => {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+        `${message} Run "${CODEGEN_COMMAND}" to update _generated/api.`,
+        vscode.DiagnosticSeverity.Warning,
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = STALE_CODEGEN_CODE;
+      const diagnostics = diagnosticsByFile.get(filePath) ?? [];
+      diagnostics.push(diagnostic);
+      diagnosticsByFile.set(filePath, diagnostics);
+    };
+
+    for (const drift of drifts) {
+      const { convexDir, configPath } = drift.projectInfo;
+      for (const modulePath of drift.missingModules) {
+        const moduleFile = findModuleFile(convexDir, modulePath);
+        if (moduleFile) {
+          addDiagnostic(
+            moduleFile,
+            0,
+            `Convex module "${modulePath}" is missing from the generated API.`,
+          );
+        }
+      }
+      for (const { modulePath, line } of drift.deletedModules) {
+        addDiagnostic(
+          drift.generatedApiPath,
+          line,
+          `Convex module "${modulePath}" no longer exists but is still in the generated API.`,
+        );
+      }
+      for (const { apiPath, filePath, line } of drift.missingFunctions) {
+        addDiagnostic(
+          filePath,
+          line,
+          `Convex function "${apiPath}" is missing from the generated API.`,
+        );
+      }
+      for (const { apiPath, line } of drift.removedFunctions) {
+        addDiagnostic(
+          drift.generatedApiPath,
+          line,
+          `Convex function "${apiPath}" is no longer exported but is still in the generated API.`,
+        );
+      }
+      if (configPath) {
+        for (const name of drift.missingComponents) {
+          addDiagnostic(
+            configPath,
+            0,
+            `Convex component "${name}" is missing from the generated API.`,
+          );
+        }
+        for (const name of drift.removedComponents) {
+          addDiagnostic(
+            configPath,
+            0,
+            `Convex component "${name}" is no longer installed but is still in the generated API.`,
+          );
+        }
+      }
+    }
+
+    for (const [filePath, diagnostics] of diagnosticsByFile) {
+      this.collection.set(vscode.Uri.file(filePath), diagnostics);
+    }
+
+    this.statusBarItem.text = "$(warning) Convex codegen";
+    this.statusBarItem.tooltip = `Generated Convex API is out of date\n${drifts
+      .map(describeDrift)
+      .join("\n")}\n\nClick to run ${CODEGEN_COMMAND}`;
+    this.statusBarItem.show();
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.collection.dispose();
+    this.statusBarItem.dispose();
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private reset(): void {
+    this.staleProjects = [];
+    this.collection.clear();
+    this.statusBarItem.hide();
+  }
+}
+
+/**
+ * Quick fix for stale codegen diagnostics: run codegen in a terminal
+ */
+export class CodegenCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext,
+  ): Promise<vscode.CodeAction[]> {
+    const diagnostics = context.diagnostics.filter(
+      (d) => d.source === DIAGNOSTIC_SOURCE && d.code === STALE_CODEGEN_CODE,
+    );
+    if (diagnostics.length === 0) {
+      return [];
+    }
+
+    const projects = await getConvexProjects();
+    const projectInfo = projects
+      .filter(
+        (p) =>
+          !p.component && isInsideDirectory(document.uri.fsPath, p.convexDir),
+      )
+      .sort((a, b) => b.convexDir.length - a.convexDir.length)[0];
+
+    const action = new vscode.CodeAction(
+      `Run ${CODEGEN_COMMAND}`,
+      vscode.CodeActionKind.QuickFix,
+    );
+    action.diagnostics = diagnostics;
+    action.isPreferred = true;
+    action.command = {
+      command: "convexNavigator.runCodegen",
+      title: `Run ${CODEGEN_COMMAND}`,
+      arguments: projectInfo ? [projectInfo.convexDir] : [],
+    };
+    return [action];
+  }
+}
+
+/**
+ * Find the directory codegen should run in: the closest package.json above the convex directory
+ */
+function getCodegenDirectory(convexDir: string): string {
+  let dir = path.dirname(convexDir);
+  let previous: string | undefined;
+  while (dir !== previous) {
+    if (fs.existsSync(path.join(dir, "package.json"))) {
+      return dir;
+    }
+    previous = dir;
+    dir = path.dirname(dir);
+  }
+  return path.dirname(convexDir);
+}
+
+/**
+ * Command handler for "Run Convex Codegen"
+ * Runs codegen for the given project, the stale projects, or a picked project.
+ */
+export async function runCodegenCommand(
+  codegen: CodegenDiagnostics,
+  convexDir?: string,
+): Promise<void> {
+  const projects = (await getConvexProjects()).filter((p) => !p.component);
+
+  let targets = convexDir
+    ? projects.filter((p) => p.convexDir === convexDir)
+    : [...codegen.stale];
+  if (targets.length === 0) {
+    if (projects.length <= 1) {
+      targets = projects;
+    } else {
+      const picked = await vscode.window.showQuickPick(
+        projects.map((projectInfo) => ({
+          label: vscode.workspace.asRelativePath(projectInfo.convexDir),
+          projectInfo,
+        })),
+        { placeHolder: "Select the Convex project to run codegen for" },
+      );
+      targets = picked ? [picked.projectInfo] : [];
+    }
+  }
+
+  for (const projectInfo of targets) {
+    const cwd = getCodegenDirectory(projectInfo.convexDir);
+    const name =
+      targets.length > 1
+        ? `${TERMINAL_NAME} (${path.basename(cwd)})`
+        : TERMINAL_NAME;
+    // A previous terminal may have changed directory since it was created,
+    // so start a new one in the right directory instead of reusing it
+    vscode.window.terminals.find((t) => t.name === name)?.dispose();
+    const terminal = vscode.window.createTerminal({ name, cwd });
+    terminal.show();
+    terminal.sendText(CODEGEN_COMMAND);
+  }
+}
@@ -0,0 +1,137 @@
+import * as vscode from "vscode";
+import type { ConvexCronJob } from "../types";
+import {
+  getConvexProjects,
+  isExcludedPath,
+  resolveApiPath,
+} from "../resolver/pathResolver";
+import { findConvexFunctionsInFile } from "../resolver/functionDetector";
+import { getCronJobs } from "../resolver/cronResolver";
+
+/**
+ * A node in the Cron Jobs tree
+ */
+export type CronJobsTreeNode =
+  | { kind: "project"; name: string; jobs: ConvexCronJob[] }
+  | { kind: "job"; job: ConvexCronJob };
+
+/**
+ * VS Code Tree Data Provider implementation
+ * Lists the cron jobs of convex/crons.ts with their schedule and target function
+ */
+export class CronJobsTreeProvider implements vscode.TreeDataProvider<CronJobsTreeNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  /**
+   * Reload the tree
+   */
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  getTreeItem(node: CronJobsTreeNode): vscode.TreeItem {
+    if (node.kind === "project") {
+      const item = new vscode.TreeItem(
+        node.name,
+        vscode.TreeItemCollapsibleState.Expanded,
+      );
+      item.iconPath = vscode.ThemeIcon.Folder;
+      item.description = `${node.jobs.length}`;
+      return item;
+    }
+
+    const { job } = node;
+    const item = new vscode.TreeItem(
+      job.name,
+      vscode.TreeItemCollapsibleState.None,
+    );
+    item.iconPath = new vscode.ThemeIcon("watch");
+    item.description = job.schedule;
+    item.tooltip = new vscode.MarkdownString(
+      `**${job.name}** *(${job.method})*\n\n${job.schedule}\n\n` +
+        (job.apiPath
+          ? `Runs \`${job.apiPath}\``
+          : "Scheduled function not resolved"),
+    );
+    item.command = {
+      command: "vscode.open",
+      title: "Go to Cron Job",
+      arguments: [
+        vscode.Uri.file(job.filePath),
+        {
+          selection: new vscode.Range(
+            job.line,
+            job.column,
+            job.line,
+            job.column,
+          ),
+        },
+      ],
+    };
+    item.contextValue = job.apiPath
+      ? "convexCronJob"
+      : "convexCronJobUnresolved";
+    return item;
+  }
+
+  async getChildren(node?: CronJobsTreeNode): Promise<CronJobsTreeNode[]> {
+    if (node) {
+      return node.kind === "project"
+        ? node.jobs.map((job) => ({ kind: "job", job }))
+        : [];
+    }
+
+    // Skip components installed from packages (node_modules)
+    const projects = (await getConvexProjects()).filter(
+      (p) => !isExcludedPath(p.convexDir),
+    );
+    const roots = projects
+      .map((projectInfo) => ({
+        kind: "project" as const,
+        name: vscode.workspace.asRelativePath(projectInfo.convexDir),
+        jobs: getCronJobs(projectInfo.convexDir),
+      }))
+      .filter((root) => root.jobs.length > 0);
+
+    if (roots.length === 1) {
+      return roots[0].jobs.map((job) => ({ kind: "job", job }));
+    }
+    return roots;
+  }
+}
+
+/**
+ * Command handler for "Go to Scheduled Function" on a job in the Cron Jobs view
+ */
+export async function goToCronTargetCommand(
+  node?: CronJobsTreeNode,
+): Promise<void> {
+  if (!node || node.kind !== "job" || !node.job.apiPath) {
+    return;
+  }
+
+  const { job } = node;
+  const resolved = await resolveApiPath(node.job.apiPath, job.filePath);
+  const definition = resolved
+    ? (await findConvexFunctionsInFile(resolved.filePath)).find(
+        (d) => d.name === resolved.functionName,
+      )
+    : undefined;
+
+  if (!definition) {
+    vscode.window.showWarningMessage(
+      `Could not find the function ${job.apiPath} scheduled by ${job.name}`,
+    );
+    return;
+  }
+
+  await vscode.window.showTextDocument(vscode.Uri.file(definition.filePath), {
+    selection: new vscode.Range(
+      definition.line,
+      definition.column,
+      definition.line,
+      definition.column + definition.name.length,
+    ),
+  });
+}
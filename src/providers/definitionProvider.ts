@@ -0,0 +1,122 @@
+import * as vscode from "vscode";
+import { resolveApiPath, resolveApiModulePath } from "../resolver/pathResolver";
+import { getApiPathPrefixAtPosition } from "../resolver/apiPathDetector";
+import { findConvexFunctionsInFile } from "../resolver/functionDetector";
+
+/**
+ * Resolve the api.X.Y.Z reference at a position to its backend location
+ *
+ * The path is cut off after the segment under the cursor, so clicking on
+ * "contacts" in "api.domains.contacts.createContact" opens the module file
+ * while clicking on "createContact" lands on the function export.
+ */
+async function resolveDefinitionAtPosition(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+): Promise<{ location: vscode.Location; originRange: vscode.Range } | null> {
+  const apiMatch = getApiPathPrefixAtPosition(document, position);
+  if (!apiMatch) {
+    return null;
+  }
+
+  const { apiPath, range } = apiMatch;
+
+  // First, try to resolve as module + exported function
+  const resolved = await resolveApiPath(apiPath, document.uri.fsPath);
+  if (resolved) {
+    const functions = await findConvexFunctionsInFile(resolved.filePath);
+    const func = functions.find((f) => f.name === resolved.functionName);
+    if (func) {
+      const start = new vscode.Position(func.line, func.column);
+      return {
+        location: new vscode.Location(
+          vscode.Uri.file(func.filePath),
+          new vscode.Range(start, start),
+        ),
+        originRange: range,
+      };
+    }
+  }
+
+  // Otherwise, the path might point to a module (e.g., api.domains.contacts)
+  const modulePath = await resolveApiModulePath(apiPath, document.uri.fsPath);
+  if (modulePath) {
+    return {
+      location: new vscode.Location(
+        vscode.Uri.file(modulePath),
+        new vscode.Position(0, 0),
+      ),
+      originRange: range,
+    };
+  }
+
+  // Fall back to the module file when the export could not be detected
+  // (e.g., a custom wrapper that is not configured)
+  if (resolved) {
+    return {
+      location: new vscode.Location(
+        vscode.Uri.file(resolved.filePath),
+        new vscode.Position(0, 0),
+      ),
+      originRange: range,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * VS Code Definition Provider implementation
+ * Provides go-to-definition for api.X.Y.Z patterns
+ *
+ * This integrates with VS Code's native "Go to Definition" (F12 / Cmd+Click)
+ * and jumps from frontend references straight to the backend export.
+ */
+export class ConvexDefinitionProvider implements vscode.DefinitionProvider {
+  async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.LocationLink[] | null> {
+    const definition = await resolveDefinitionAtPosition(document, position);
+    if (!definition || token.isCancellationRequested) {
+      return null;
+    }
+
+    const { location, originRange } = definition;
+    return [
+      {
+        originSelectionRange: originRange,
+        targetUri: location.uri,
+        targetRange: location.range,
+      },
+    ];
+  }
+}
+
+/**
+ * Command handler for "Go to Convex Definition"
+ */
+export async function goToDefinitionCommand(): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showWarningMessage("No active editor");
+    return;
+  }
+
+  const definition = await resolveDefinitionAtPosition(
+    editor.document,
+    editor.selection.active,
+  );
+
+  if (!definition) {
+    vscode.window.showWarningMessage(
+      "Cursor is not on a Convex API reference (e.g., api.module.function)",
+    );
+    return;
+  }
+
+  await vscode.window.showTextDocument(definition.location.uri, {
+    selection: definition.location.range,
+  });
+}
@@ -0,0 +1,200 @@
+import * as vscode from "vscode";
+import * as ts from "typescript";
+import { getAllWrappers } from "../config";
+import type { ConvexFunctionType } from "../types";
+import {
+  getConvexProjectInfo,
+  isConvexBackendFile,
+} from "../resolver/pathResolver";
+import {
+  findConvexFunctionsInSource,
+  parseConvexFunctions,
+  parseSourceFile,
+} from "../resolver/functionDetector";
+import { findSchemaFile, parseSchemaTables } from "../resolver/schemaResolver";
+import { findRouterFile, parseHttpRoutes } from "../resolver/httpRouteResolver";
+import { formatRoute } from "./httpRouteProvider";
+
+/**
+ * Outline group and symbol kind of each function type, in display order
+ */
+const FUNCTION_GROUPS: Record<
+  ConvexFunctionType,
+  { label: string; kind: vscode.SymbolKind }
+> = {
+  query: { label: "Queries", kind: vscode.SymbolKind.Function },
+  mutation: { label: "Mutations", kind: vscode.SymbolKind.Method },
+  action: { label: "Actions", kind: vscode.SymbolKind.Event },
+  internalQuery: {
+    label: "Internal queries",
+    kind: vscode.SymbolKind.Function,
+  },
+  internalMutation: {
+    label: "Internal mutations",
+    kind: vscode.SymbolKind.Method,
+  },
+  internalAction: { label: "Internal actions", kind: vscode.SymbolKind.Event },
+  httpAction: { label: "HTTP actions", kind: vscode.SymbolKind.Interface },
+  unknown: { label: "Other functions", kind: vscode.SymbolKind.Variable },
+};
+
+/**
+ * Range from a position to the end of its line, for symbols parsed with a start position only
+ */
+function lineRange(
+  document: vscode.TextDocument,
+  line: number,
+  column: number,
+): vscode.Range {
+  return new vscode.Range(
+    line,
+    column,
+    line,
+    document.lineAt(line).range.end.character,
+  );
+}
+
+/**
+ * Wrap symbols in a group symbol spanning all of them
+ */
+function createGroup(
+  name: string,
+  children: vscode.DocumentSymbol[],
+): vscode.DocumentSymbol {
+  const range = children
+    .map((child) => child.range)
+    .reduce((union, childRange) => union.union(childRange));
+  const group = new vscode.DocumentSymbol(
+    name,
+    `${children.length}`,
+    vscode.SymbolKind.Namespace,
+    range,
+    range.with(range.start, range.start),
+  );
+  group.children = children;
+  return group;
+}
+
+/**
+ * VS Code Document Symbol Provider implementation
+ * Outlines Convex backend files: functions grouped by type, schema tables and HTTP routes
+ */
+export class ConvexDocumentSymbolProvider
+  implements vscode.DocumentSymbolProvider
+{
+  async provideDocumentSymbols(
+    document: vscode.TextDocument,
+    _token: vscode.CancellationToken,
+  ): Promise<vscode.DocumentSymbol[]> {
+    const filePath = document.uri.fsPath;
+    if (!(await isConvexBackendFile(filePath))) {
+      return [];
+    }
+
+    const sourceFile = parseSourceFile(filePath, document.getText());
+    const symbols = await this.getFunctionSymbols(document, sourceFile);
+
+    const projectInfo = await getConvexProjectInfo(
+      filePath,
+      document.getText(),
+    );
+    if (projectInfo && findSchemaFile(projectInfo.convexDir) === filePath) {
+      const tables = parseSchemaTables(sourceFile).map((table) => {
+        const indexes = table.indexes.map((index) => {
+          const indexRange = lineRange(document, index.line, index.column);
+          return new vscode.DocumentSymbol(
+            index.name,
+            `${index.kind} [${index.fields.join(", ")}]`,
+            vscode.SymbolKind.Key,
+            indexRange,
+            indexRange,
+          );
+        });
+        // Indexes chained on the next lines belong to the table's range
+        const nameRange = lineRange(document, table.line, table.column);
+        const symbol = new vscode.DocumentSymbol(
+          table.name,
+          `${table.indexes.length} index${table.indexes.length === 1 ? "" : "es"}`,
+          vscode.SymbolKind.Struct,
+          indexes.reduce((range, index) => range.union(index.range), nameRange),
+          nameRange,
+        );
+        symbol.children = indexes;
+        return symbol;
+      });
+      if (tables.length > 0) {
+        symbols.push(createGroup("Tables", tables));
+      }
+    }
+
+    if (projectInfo && findRouterFile(projectInfo.convexDir) === filePath) {
+      const routes = parseHttpRoutes(sourceFile, projectInfo.convexDir).map(
+        (route) => {
+          const range = lineRange(document, route.line, route.column);
+          return new vscode.DocumentSymbol(
+            formatRoute(route),
+            route.handler?.name ?? "inline httpAction",
+            vscode.SymbolKind.Interface,
+            range,
+            range,
+          );
+        },
+      );
+      if (routes.length > 0) {
+        symbols.push(createGroup("HTTP routes", routes));
+      }
+    }
+
+    return symbols;
+  }
+
+  /**
+   * Group the Convex functions of a file by type
+   * Each function shows its wrapper and API path as detail.
+   */
+  private async getFunctionSymbols(
+    document: vscode.TextDocument,
+    sourceFile: ts.SourceFile,
+  ): Promise<vscode.DocumentSymbol[]> {
+    const definitions = await findConvexFunctionsInSource(
+      document.uri.fsPath,
+      sourceFile,
+    );
+    const parsed = parseConvexFunctions(sourceFile, getAllWrappers());
+
+    const groups = new Map<ConvexFunctionType, vscode.DocumentSymbol[]>();
+    for (const definition of definitions) {
+      const declaration = parsed.find((f) => f.name === definition.name);
+      const selectionRange = new vscode.Range(
+        definition.line,
+        definition.column,
+        definition.line,
+        definition.column + definition.name.length,
+      );
+      const range = declaration
+        ? new vscode.Range(
+            document.positionAt(declaration.declarationStart),
+            document.positionAt(declaration.declarationEnd),
+          ).union(selectionRange)
+        : selectionRange;
+
+      const symbols = groups.get(definition.type) ?? [];
+      symbols.push(
+        new vscode.DocumentSymbol(
+          definition.name,
+          `${definition.wrapper} · ${definition.apiPath}`,
+          FUNCTION_GROUPS[definition.type].kind,
+          range,
+          selectionRange,
+        ),
+      );
+      groups.set(definition.type, symbols);
+    }
+
+    return (Object.keys(FUNCTION_GROUPS) as ConvexFunctionType[])
+      .filter((type) => groups.has(type))
+      .map((type) =>
+        createGroup(FUNCTION_GROUPS[type].label, groups.get(type)!),
+      );
+  }
+}
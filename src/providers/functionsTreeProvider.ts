@@ -0,0 +1,292 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { getConfig } from "../config";
+import type {
+  ConvexFunctionDefinition,
+  ConvexFunctionType,
+  ConvexProjectInfo,
+} from "../types";
+import {
+  getConvexProjects,
+  isExcludedPath,
+  isInternalFunctionType,
+} from "../resolver/pathResolver";
+import { findConvexFunctionsInFile } from "../resolver/functionDetector";
+import { getWorkspaceIndex } from "../resolver/workspaceIndex";
+
+/**
+ * A node in the Convex Functions tree
+ */
+export type FunctionsTreeNode =
+  | { kind: "folder"; name: string; children: FunctionsTreeNode[] }
+  | {
+      kind: "module";
+      name: string;
+      filePath: string;
+      /** Convex directory of the project the module belongs to */
+      convexDir: string;
+      functions: ConvexFunctionDefinition[];
+    }
+  | {
+      kind: "function";
+      definition: ConvexFunctionDefinition;
+      convexDir: string;
+    };
+
+type FolderNode = Extract<FunctionsTreeNode, { kind: "folder" }>;
+
+/**
+ * Icons for each function type; internal functions use the same icon in a different color
+ */
+const FUNCTION_ICONS: Record<ConvexFunctionType, string> = {
+  query: "search",
+  mutation: "edit",
+  action: "zap",
+  internalQuery: "search",
+  internalMutation: "edit",
+  internalAction: "zap",
+  httpAction: "globe",
+  unknown: "symbol-function",
+};
+
+/**
+ * VS Code Tree Data Provider implementation
+ * Lists Convex modules as a folder tree with their exported functions
+ */
+export class ConvexFunctionsTreeProvider implements vscode.TreeDataProvider<FunctionsTreeNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  /**
+   * Reload the tree
+   */
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  getTreeItem(node: FunctionsTreeNode): vscode.TreeItem {
+    if (node.kind === "folder") {
+      const item = new vscode.TreeItem(
+        node.name,
+        vscode.TreeItemCollapsibleState.Collapsed,
+      );
+      item.iconPath = vscode.ThemeIcon.Folder;
+      item.contextValue = "convexFolder";
+      return item;
+    }
+
+    if (node.kind === "module") {
+      const item = new vscode.TreeItem(
+        node.name,
+        node.functions.length > 0
+          ? vscode.TreeItemCollapsibleState.Collapsed
+          : vscode.TreeItemCollapsibleState.None,
+      );
+      item.resourceUri = vscode.Uri.file(node.filePath);
+      item.iconPath = vscode.ThemeIcon.File;
+      item.description =
+        node.functions.length > 0 ? `${node.functions.length}` : undefined;
+      item.command = {
+        command: "vscode.open",
+        title: "Open Module",
+        arguments: [vscode.Uri.file(node.filePath)],
+      };
+      item.contextValue = "convexModule";
+      return item;
+    }
+
+    const { definition } = node;
+    const item = new vscode.TreeItem(
+      definition.name,
+      vscode.TreeItemCollapsibleState.None,
+    );
+    item.iconPath = new vscode.ThemeIcon(
+      FUNCTION_ICONS[definition.type],
+      isInternalFunctionType(definition.type)
+        ? new vscode.ThemeColor("disabledForeground")
+        : undefined,
+    );
+
+    const index = getWorkspaceIndex();
+    const descriptionParts = [definition.wrapper];
+    // HTTP actions are called through routes, which are listed in their own view
+    if (index && definition.type !== "httpAction") {
+      const count = index
+        .getUsages(definition.apiPath, node.convexDir)
+        .filter((u) => u.kind !== "comment").length;
+      descriptionParts.push(`${count} usage${count === 1 ? "" : "s"}`);
+    }
+    item.description = descriptionParts.join(" · ");
+
+    item.tooltip = new vscode.MarkdownString(
+      `**${definition.name}** *(${definition.type})*\n\n\`${definition.apiPath}\``,
+    );
+    item.command = {
+      command: "vscode.open",
+      title: "Go to Definition",
+      arguments: [
+        vscode.Uri.file(definition.filePath),
+        {
+          selection: new vscode.Range(
+            definition.line,
+            definition.column,
+            definition.line,
+            definition.column + definition.name.length,
+          ),
+        },
+      ],
+    };
+    item.contextValue = "convexFunction";
+    return item;
+  }
+
+  async getChildren(node?: FunctionsTreeNode): Promise<FunctionsTreeNode[]> {
+    if (!node) {
+      return this.buildTree();
+    }
+    if (node.kind === "folder") {
+      return node.children;
+    }
+    if (node.kind === "module") {
+      return node.functions.map((definition) => ({
+        kind: "function",
+        definition,
+        convexDir: node.convexDir,
+      }));
+    }
+    return [];
+  }
+
+  /**
+   * Build the module tree, with one root folder per project when the
+   * workspace contains several Convex projects
+   */
+  private async buildTree(): Promise<FunctionsTreeNode[]> {
+    // Components installed from packages live in excluded folders (node_modules)
+    const projects = (await getConvexProjects()).filter(
+      (p) => !isExcludedPath(p.convexDir),
+    );
+    if (projects.length === 1) {
+      return this.buildProjectTree(projects[0], projects);
+    }
+
+    const roots: FunctionsTreeNode[] = [];
+    for (const projectInfo of projects) {
+      const relativePath = vscode.workspace.asRelativePath(
+        projectInfo.convexDir,
+      );
+      roots.push({
+        kind: "folder",
+        name: projectInfo.component
+          ? `${relativePath} (component ${projectInfo.component.name})`
+          : relativePath,
+        children: await this.buildProjectTree(projectInfo, projects),
+      });
+    }
+    return roots;
+  }
+
+  /**
+   * Build the module tree for the convex directory of a project
+   */
+  private async buildProjectTree(
+    projectInfo: ConvexProjectInfo,
+    projects: ConvexProjectInfo[],
+  ): Promise<FunctionsTreeNode[]> {
+    // Local components inside this convex directory get their own root
+    const nestedDirs = projects
+      .map((p) => p.convexDir)
+      .filter((dir) => dir.startsWith(projectInfo.convexDir + path.sep));
+
+    const config = getConfig();
+    const files = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(projectInfo.convexDir, "**/*.{ts,tsx,js,jsx}"),
+      `{${config.excludePatterns.join(",")}}`,
+    );
+
+    // Use the index when it is ready, otherwise detect functions per file
+    const index = getWorkspaceIndex();
+    const indexedDefinitions = index?.getDefinitions();
+
+    const root: FunctionsTreeNode[] = [];
+    const sortedFiles = files
+      .map((file) => file.fsPath)
+      .filter(
+        (filePath) =>
+          !filePath.endsWith(".d.ts") &&
+          !nestedDirs.some((dir) => filePath.startsWith(dir + path.sep)),
+      )
+      .sort();
+
+    for (const filePath of sortedFiles) {
+      const functions = indexedDefinitions
+        ? indexedDefinitions.filter((d) => d.filePath === filePath)
+        : await findConvexFunctionsInFile(filePath);
+
+      const segments = path
+        .relative(projectInfo.convexDir, filePath)
+        .split(path.sep);
+      const fileName = segments.pop()!;
+
+      // Walk down (and create) the folder nodes for this module
+      let children = root;
+      for (const segment of segments) {
+        let folder = children.find(
+          (child): child is FolderNode =>
+            child.kind === "folder" && child.name === segment,
+        );
+        if (!folder) {
+          folder = { kind: "folder", name: segment, children: [] };
+          children.push(folder);
+        }
+        children = folder.children;
+      }
+
+      children.push({
+        kind: "module",
+        name: fileName,
+        filePath,
+        convexDir: projectInfo.convexDir,
+        functions: [...functions].sort((a, b) => a.line - b.line),
+      });
+    }
+
+    return sortFolderFirst(root);
+  }
+}
+
+/**
+ * Sort folders before modules, recursively
+ */
+function sortFolderFirst(nodes: FunctionsTreeNode[]): FunctionsTreeNode[] {
+  for (const node of nodes) {
+    if (node.kind === "folder") {
+      sortFolderFirst(node.children);
+    }
+  }
+  return nodes.sort((a, b) => {
+    if (a.kind === "folder" && b.kind !== "folder") {
+      return -1;
+    }
+    if (a.kind !== "folder" && b.kind === "folder") {
+      return 1;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Command handler for "Find Usages" on a function in the Convex Functions view
+ */
+export async function findUsagesFromTreeCommand(
+  node?: FunctionsTreeNode,
+): Promise<void> {
+  if (!node || node.kind !== "function") {
+    return;
+  }
+
+  await vscode.commands.executeCommand(
+    "convexNavigator.showUsageResults",
+    node.definition,
+  );
+}
@@ -1,99 +1,74 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { getConvexProjectInfo, resolveApiPath } from "../resolver/pathResolver";
+import * as ts from "typescript";
+import { getAllWrappers, getConfig } from "../config";
+import type { ConvexFunctionType, UsageKind } from "../types";
+import {
+  getConvexProjectInfo,
+  isInternalFunctionType,
+  resolveApiPath,
+} from "../resolver/pathResolver";
+import { getApiPathAtPosition } from "../resolver/apiPathDetector";
+import {
+  getFunctionType,
+  parseSourceFile,
+  parseConvexFunctions,
+} from "../resolver/functionDetector";
+import { renderValidator } from "../resolver/validatorRenderer";
+import { findApiReferences } from "../resolver/referenceResolver";
+import { getWorkspaceIndex } from "../resolver/workspaceIndex";
+import { USAGE_KINDS } from "./usagesTreeProvider";
 
 /**
- * Regex to match api.X.Y.Z patterns in code
- * Matches: api.domains.contacts.createContact
- * Also matches: internal.domains.contacts.createContact
- */
-const API_PATH_PATTERN = /\b(api|internal)(\.\w+)+\b/g;
-
-/**
- * Extract the API path at a given position in the document
- */
-function getApiPathAtPosition(
-  document: vscode.TextDocument,
-  position: vscode.Position,
-): { apiPath: string; range: vscode.Range } | null {
-  const line = document.lineAt(position.line).text;
-  const pattern = new RegExp(API_PATH_PATTERN.source, "g");
-
-  let match: RegExpExecArray | null = pattern.exec(line);
-  while (match !== null) {
-    const startCol = match.index;
-    const endCol = match.index + match[0].length;
-
-    // Check if position is within this match
-    if (position.character >= startCol && position.character <= endCol) {
-      return {
-        apiPath: match[0],
-        range: new vscode.Range(position.line, startCol, position.line, endCol),
-      };
-    }
-
-    match = pattern.exec(line);
-  }
-
-  return null;
-}
-
-/**
- * Try to extract function signature from the source file
- * This is a simplified extraction - for full accuracy, use TypeScript AST
+ * Extract function signature from the source file using the TypeScript AST
  */
 async function extractFunctionInfo(
   filePath: string,
   functionName: string,
 ): Promise<{
   wrapper: string;
-  argsPreview: string;
+  type: ConvexFunctionType;
+  args?: string;
+  returns?: string;
+  documentation?: string;
   lineNumber: number;
 } | null> {
   try {
     const document = await vscode.workspace.openTextDocument(filePath);
-    const content = document.getText();
-
-    // Find the export const line
-    const exportPattern = new RegExp(
-      `export\\s+const\\s+${functionName}\\s*=\\s*(\\w+)(?:<[^>]+>)?\\s*\\(\\s*\\{`,
-      "s",
+    const sourceFile = parseSourceFile(filePath, document.getText());
+    const func = parseConvexFunctions(sourceFile, getAllWrappers()).find(
+      (f) => f.name === functionName,
     );
-    const match = exportPattern.exec(content);
 
-    if (!match) {
+    if (!func) {
       return null;
     }
 
-    const wrapper = match[1];
-    const position = document.positionAt(match.index);
-
-    // Try to extract the args object (simplified)
-    const afterMatch = content.slice(match.index + match[0].length);
-
-    // Find the args property
-    const argsMatch = afterMatch.match(
-      /args\s*:\s*(?:z\.object\()?(\{[^}]+\}|\w+)/s,
-    );
-    let argsPreview = "unknown";
+    const position = document.positionAt(func.nameStart);
 
-    if (argsMatch) {
-      argsPreview = argsMatch[1].trim();
-      // Truncate if too long
-      if (argsPreview.length > 100) {
-        argsPreview = argsPreview.slice(0, 100) + "...";
-      }
-    } else {
-      // Check for validator pattern (e.g., args: v.object({...}))
-      const validatorMatch = afterMatch.match(/args\s*:\s*v\.(\w+)\(/);
-      if (validatorMatch) {
-        argsPreview = `v.${validatorMatch[1]}(...)`;
+    // Render the args and returns validators of the function config object
+    const validators: { args?: string; returns?: string } = {};
+    const [config] = func.call.arguments;
+    if (config && ts.isObjectLiteralExpression(config)) {
+      for (const property of config.properties) {
+        if (
+          ts.isPropertyAssignment(property) &&
+          ts.isIdentifier(property.name) &&
+          (property.name.text === "args" || property.name.text === "returns")
+        ) {
+          validators[property.name.text] = renderValidator(
+            property.initializer,
+            sourceFile,
+          );
+        }
       }
     }
 
     return {
-      wrapper,
-      argsPreview,
+      wrapper: func.wrapper,
+      type: getFunctionType(func.wrapper),
+      ...validators,
+      documentation: getDocumentation(sourceFile, func.declarationStart),
       lineNumber: position.line + 1, // Convert to 1-indexed for display
     };
   } catch (error) {
@@ -102,11 +77,45 @@ async function extractFunctionInfo(
   }
 }
 
+/**
+ * Get the JSDoc comment of the statement containing a declaration
+ */
+function getDocumentation(
+  sourceFile: ts.SourceFile,
+  declarationStart: number,
+): string | undefined {
+  const statement = sourceFile.statements.find(
+    (s) => s.pos <= declarationStart && declarationStart < s.end,
+  );
+  if (!statement) {
+    return undefined;
+  }
+
+  const comment = ts
+    .getLeadingCommentRanges(sourceFile.text, statement.pos)
+    ?.filter((range) => sourceFile.text.startsWith("/**", range.pos))
+    .pop();
+  if (!comment) {
+    return undefined;
+  }
+
+  // Strip the comment delimiters and leading asterisks
+  return sourceFile.text
+    .slice(comment.pos + 3, comment.end - 2)
+    .split("\n")
+    .map((line) => line.replace(/^\s*\* ?/, "").trimEnd())
+    .join("\n")
+    .trim();
+}
+
 /**
  * Determine function type from wrapper name for display
  */
 function getFunctionTypeLabel(wrapper: string): string {
   const lower = wrapper.toLowerCase();
+  if (lower.includes("httpaction")) {
+    return "HTTP action";
+  }
   if (lower.includes("query")) {
     return "query";
   }
@@ -119,6 +128,50 @@ function getFunctionTypeLabel(wrapper: string): string {
   return wrapper;
 }
 
+/**
+ * Describe how the reference at an offset calls the function
+ * e.g., "**Server-rendered** (`fetchQuery`)"
+ */
+function describeCallSite(
+  document: vscode.TextDocument,
+  offset: number,
+): string | undefined {
+  const sourceFile = parseSourceFile(document.uri.fsPath, document.getText());
+  const reference = findApiReferences(
+    sourceFile,
+    getConfig().apiImportPatterns,
+  ).find((r) => r.start <= offset && offset <= r.end);
+  if (!reference?.kind) {
+    return undefined;
+  }
+  return `**${USAGE_KINDS[reference.kind].label}** (\`${reference.hookUsed}\`)`;
+}
+
+/**
+ * Summarize indexed usages of an API path by kind
+ * e.g., "3 client-reactive · 1 server-rendered"
+ */
+function describeUsages(
+  apiPath: string,
+  convexDir: string,
+): string | undefined {
+  const usages = getWorkspaceIndex()?.getUsages(apiPath, convexDir);
+  if (!usages || usages.length === 0) {
+    return undefined;
+  }
+
+  const counts = new Map<UsageKind, number>();
+  for (const usage of usages) {
+    counts.set(usage.kind, (counts.get(usage.kind) ?? 0) + 1);
+  }
+  return (Object.keys(USAGE_KINDS) as UsageKind[])
+    .filter((kind) => counts.has(kind))
+    .map(
+      (kind) => `${counts.get(kind)} ${USAGE_KINDS[kind].label.toLowerCase()}`,
+    )
+    .join(" · ");
+}
+
 /**
  * VS Code Hover Provider implementation
  * Provides hover information for api.X.Y.Z patterns
@@ -137,33 +190,68 @@ export class ConvexHoverProvider implements vscode.HoverProvider {
     const { apiPath, range } = apiMatch;
 
     // Resolve the API path to a file
-    const resolved = await resolveApiPath(apiPath);
+    const resolved = await resolveApiPath(apiPath, document.uri.fsPath);
     if (!resolved) {
       return null;
     }
 
     const { filePath, functionName } = resolved;
-    const projectInfo = await getConvexProjectInfo();
+    const projectInfo = await getConvexProjectInfo(filePath);
 
     // Get function information
     const functionInfo = await extractFunctionInfo(filePath, functionName);
 
     // Build the hover content
+    // Doc comments come from the workspace, so they are rendered untrusted
+    const summary = new vscode.MarkdownString();
     const markdown = new vscode.MarkdownString();
-    markdown.isTrusted = true;
-    markdown.supportHtml = true;
+    // Only the file location link runs a command
+    markdown.isTrusted = { enabledCommands: ["vscode.open"] };
 
-    // Header with function name and type
+    // Header with function name, type and visibility
     if (functionInfo) {
       const typeLabel = getFunctionTypeLabel(functionInfo.wrapper);
-      markdown.appendMarkdown(`**${functionName}** *(${typeLabel})*\n\n`);
+      const visibility = isInternalFunctionType(functionInfo.type)
+        ? "internal"
+        : "public";
+      summary.appendMarkdown(
+        `**${functionName}** *(${typeLabel} · ${visibility})*\n\n`,
+      );
+
+      if (functionInfo.documentation) {
+        summary.appendMarkdown(`${functionInfo.documentation}\n\n`);
+      }
+
+      // Args and returns rendered as TypeScript-like types
+      const signature: string[] = [];
+      if (functionInfo.args) {
+        signature.push(`args: ${functionInfo.args}`);
+      }
+      if (functionInfo.returns) {
+        signature.push(`returns: ${functionInfo.returns}`);
+      }
+      if (signature.length > 0) {
+        markdown.appendCodeblock(signature.join("\n"), "typescript");
+      }
+
       markdown.appendMarkdown(`Wrapper: \`${functionInfo.wrapper}\`\n\n`);
 
-      if (functionInfo.argsPreview !== "unknown") {
-        markdown.appendMarkdown(`Args: \`${functionInfo.argsPreview}\`\n\n`);
+      // Tell server-rendered, client-reactive and optimistic call sites apart
+      const callSite = describeCallSite(document, document.offsetAt(position));
+      if (callSite) {
+        markdown.appendMarkdown(`Called here: ${callSite}\n\n`);
+      }
+      const documentProject = await getConvexProjectInfo(
+        document.uri.fsPath,
+        document.getText(),
+      );
+      const usages =
+        documentProject && describeUsages(apiPath, documentProject.convexDir);
+      if (usages) {
+        markdown.appendMarkdown(`Usages: ${usages}\n\n`);
       }
     } else {
-      markdown.appendMarkdown(`**${functionName}**\n\n`);
+      summary.appendMarkdown(`**${functionName}**\n\n`);
     }
 
     // File location with clickable link
@@ -184,6 +272,6 @@ export class ConvexHoverProvider implements vscode.HoverProvider {
 
     markdown.appendMarkdown(`[${relativePath}:${lineNumber}](${commandUri})`);
 
-    return new vscode.Hover(markdown, range);
+    return new vscode.Hover([summary, markdown], range);
   }
 }
@@ -0,0 +1,150 @@
+import * as vscode from "vscode";
+import * as ts from "typescript";
+import type { ConvexHttpRoute } from "../types";
+import { getConvexProjectInfo } from "../resolver/pathResolver";
+import { parseSourceFile } from "../resolver/functionDetector";
+import {
+  getHttpRoutes,
+  getUrlPath,
+  matchHttpRoutes,
+} from "../resolver/httpRouteResolver";
+
+/**
+ * Find the HTTP routes a URL string at a position points to
+ * e.g., fetch(`${siteUrl}/api/webhook`) -> the POST /api/webhook route
+ */
+async function getRoutesAtPosition(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+): Promise<{ routes: ConvexHttpRoute[]; range: vscode.Range } | null> {
+  const sourceFile = parseSourceFile(document.uri.fsPath, document.getText());
+  const literal = findUrlLiteralAtOffset(
+    sourceFile,
+    document.offsetAt(position),
+  );
+  const urlPath = literal && getUrlPath(literal);
+  if (!literal || !urlPath) {
+    return null;
+  }
+
+  const projectInfo = await getConvexProjectInfo(
+    document.uri.fsPath,
+    document.getText(),
+  );
+  if (!projectInfo) {
+    return null;
+  }
+
+  const routes = matchHttpRoutes(
+    getHttpRoutes(projectInfo.convexDir),
+    urlPath.path,
+    urlPath.isPartial,
+  );
+  if (routes.length === 0) {
+    return null;
+  }
+
+  return {
+    routes,
+    range: new vscode.Range(
+      document.positionAt(literal.getStart(sourceFile)),
+      document.positionAt(literal.getEnd()),
+    ),
+  };
+}
+
+/**
+ * Find the string or template literal containing an offset
+ */
+function findUrlLiteralAtOffset(
+  sourceFile: ts.SourceFile,
+  offset: number,
+): ts.StringLiteralLike | ts.TemplateExpression | undefined {
+  let found: ts.StringLiteralLike | ts.TemplateExpression | undefined;
+  const visit = (node: ts.Node) => {
+    if (node.getStart(sourceFile) > offset || node.getEnd() < offset) {
+      return;
+    }
+    // Keep descending: literals inside a template's interpolations are more specific
+    if (ts.isStringLiteralLike(node) || ts.isTemplateExpression(node)) {
+      found = node;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
+
+/**
+ * Format a route for display (e.g., "POST /api/webhook", "GET /files/*")
+ */
+export function formatRoute(route: ConvexHttpRoute): string {
+  return `${route.method} ${route.path}${route.isPrefix ? "*" : ""}`;
+}
+
+/**
+ * VS Code Definition Provider for HTTP route URLs
+ * Jumps from a URL string in frontend code to the httpAction handling it
+ */
+export class HttpRouteDefinitionProvider implements vscode.DefinitionProvider {
+  async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.LocationLink[] | null> {
+    const match = await getRoutesAtPosition(document, position);
+    if (!match || token.isCancellationRequested) {
+      return null;
+    }
+
+    return match.routes.map((route) => {
+      const target = route.handler ?? route;
+      const start = new vscode.Position(target.line, target.column);
+      return {
+        originSelectionRange: match.range,
+        targetUri: vscode.Uri.file(target.filePath),
+        targetRange: new vscode.Range(start, start),
+      };
+    });
+  }
+}
+
+/**
+ * VS Code Hover Provider for HTTP route URLs
+ * Shows the matching routes with links to their handlers
+ */
+export class HttpRouteHoverProvider implements vscode.HoverProvider {
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.Hover | null> {
+    const match = await getRoutesAtPosition(document, position);
+    if (!match) {
+      return null;
+    }
+
+    const markdown = new vscode.MarkdownString();
+    markdown.isTrusted = { enabledCommands: ["vscode.open"] };
+
+    for (const route of match.routes) {
+      const target = route.handler ?? route;
+      const commandUri = vscode.Uri.parse(
+        `command:vscode.open?${encodeURIComponent(
+          JSON.stringify([
+            vscode.Uri.file(target.filePath),
+            {
+              selection: { startLine: target.line, startColumn: target.column },
+            },
+          ]),
+        )}`,
+      );
+      const handlerName = route.handler?.name ?? "inline httpAction";
+      markdown.appendMarkdown(
+        `**${formatRoute(route)}** *(HTTP route)*\n\n` +
+          `Handler: \`${handlerName}\` · [${vscode.workspace.asRelativePath(target.filePath)}:${target.line + 1}](${commandUri})\n\n`,
+      );
+    }
+
+    return new vscode.Hover(markdown, match.range);
+  }
+}
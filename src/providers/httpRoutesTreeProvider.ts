@@ -0,0 +1,96 @@
+import * as vscode from "vscode";
+import type { ConvexHttpRoute } from "../types";
+import { getConvexProjects, isExcludedPath } from "../resolver/pathResolver";
+import { getHttpRoutes } from "../resolver/httpRouteResolver";
+import { formatRoute } from "./httpRouteProvider";
+
+/**
+ * A node in the HTTP Routes tree
+ */
+export type HttpRoutesTreeNode =
+  | { kind: "project"; name: string; routes: ConvexHttpRoute[] }
+  | { kind: "route"; route: ConvexHttpRoute };
+
+/**
+ * VS Code Tree Data Provider implementation
+ * Lists the routes of convex/http.ts (method + path -> handler)
+ */
+export class HttpRoutesTreeProvider implements vscode.TreeDataProvider<HttpRoutesTreeNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  /**
+   * Reload the tree
+   */
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  getTreeItem(node: HttpRoutesTreeNode): vscode.TreeItem {
+    if (node.kind === "project") {
+      const item = new vscode.TreeItem(
+        node.name,
+        vscode.TreeItemCollapsibleState.Expanded,
+      );
+      item.iconPath = vscode.ThemeIcon.Folder;
+      item.description = `${node.routes.length}`;
+      return item;
+    }
+
+    const { route } = node;
+    const item = new vscode.TreeItem(
+      formatRoute(route),
+      vscode.TreeItemCollapsibleState.None,
+    );
+    item.iconPath = new vscode.ThemeIcon("globe");
+    item.description = route.handler?.name ?? "inline httpAction";
+
+    // Open the handler, or the route itself when the handler is not resolved
+    const target = route.handler ?? route;
+    item.tooltip = new vscode.MarkdownString(
+      `**${formatRoute(route)}**\n\n${vscode.workspace.asRelativePath(target.filePath)}:${target.line + 1}`,
+    );
+    item.command = {
+      command: "vscode.open",
+      title: "Go to Handler",
+      arguments: [
+        vscode.Uri.file(target.filePath),
+        {
+          selection: new vscode.Range(
+            target.line,
+            target.column,
+            target.line,
+            target.column,
+          ),
+        },
+      ],
+    };
+    item.contextValue = "convexHttpRoute";
+    return item;
+  }
+
+  async getChildren(node?: HttpRoutesTreeNode): Promise<HttpRoutesTreeNode[]> {
+    if (node) {
+      return node.kind === "project"
+        ? node.routes.map((route) => ({ kind: "route", route }))
+        : [];
+    }
+
+    // Skip components installed from packages (node_modules)
+    const projects = (await getConvexProjects()).filter(
+      (p) => !isExcludedPath(p.convexDir),
+    );
+    const roots = projects
+      .map((projectInfo) => ({
+        kind: "project" as const,
+        name: vscode.workspace.asRelativePath(projectInfo.convexDir),
+        routes: getHttpRoutes(projectInfo.convexDir),
+      }))
+      .filter((root) => root.routes.length > 0);
+
+    if (roots.length === 1) {
+      return roots[0].routes.map((route) => ({ kind: "route", route }));
+    }
+    return roots;
+  }
+}
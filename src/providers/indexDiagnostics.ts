@@ -0,0 +1,235 @@
+import * as vscode from "vscode";
+import type { ConvexIndexDefinition, ConvexTableDefinition } from "../types";
+import { getConvexProjectInfo } from "../resolver/pathResolver";
+import { parseSourceFile } from "../resolver/functionDetector";
+import {
+  findIndexReferenceAtOffset,
+  findIndexReferences,
+  getSchemaTables,
+  SYSTEM_INDEXES,
+  type IndexReference,
+} from "../resolver/schemaResolver";
+import { findClosest } from "./apiPathDiagnostics";
+
+const DIAGNOSTIC_SOURCE = "Convex Navigator";
+const UNKNOWN_INDEX_CODE = "unknown-index";
+const UPDATE_DELAY_MS = 500;
+
+/**
+ * How each kind of index is named in messages
+ */
+const INDEX_KIND_LABELS: Record<ConvexIndexDefinition["kind"], string> = {
+  index: "index",
+  searchIndex: "search index",
+  vectorIndex: "vector index",
+};
+
+/**
+ * Get the index names of a table that a query method accepts
+ */
+function getValidIndexNames(
+  table: ConvexTableDefinition,
+  kind: ConvexIndexDefinition["kind"],
+): string[] {
+  const names = table.indexes
+    .filter((index) => index.kind === kind)
+    .map((index) => index.name);
+  return kind === "index" ? [...names, ...Object.keys(SYSTEM_INDEXES)] : names;
+}
+
+/**
+ * Find the schema table and valid index names for an index reference
+ * Returns null when the table is not in the schema or its indexes are unknown.
+ */
+function getIndexContext(
+  reference: IndexReference,
+  tables: ConvexTableDefinition[],
+): { table: ConvexTableDefinition; validNames: string[] } | null {
+  const table = tables.find((t) => t.name === reference.tableName);
+  if (!table?.parsed) {
+    return null;
+  }
+  return { table, validNames: getValidIndexNames(table, reference.kind) };
+}
+
+/**
+ * Reports .withIndex() / .withSearchIndex() / ctx.vectorSearch() index names
+ * that are not defined on the queried table in schema.ts
+ */
+export class IndexDiagnostics implements vscode.Disposable {
+  private readonly collection =
+    vscode.languages.createDiagnosticCollection("convex-indexes");
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Schedule a check of a document shortly after the last edit
+   */
+  scheduleUpdate(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const timer = this.timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key);
+        void this.updateDocument(document);
+      }, UPDATE_DELAY_MS),
+    );
+  }
+
+  /**
+   * Re-check every open document (e.g., after schema.ts changed)
+   */
+  updateAll(): void {
+    for (const document of vscode.workspace.textDocuments) {
+      this.scheduleUpdate(document);
+    }
+  }
+
+  /**
+   * Remove diagnostics of a closed document
+   */
+  clear(document: vscode.TextDocument): void {
+    this.collection.delete(document.uri);
+  }
+
+  /**
+   * Check all index names used by queries in a document
+   */
+  async updateDocument(document: vscode.TextDocument): Promise<void> {
+    if (
+      document.uri.scheme !== "file" ||
+      !/\.(ts|tsx|js|jsx)$/.test(document.uri.fsPath) ||
+      document.uri.fsPath.includes("_generated")
+    ) {
+      return;
+    }
+
+    const sourceFile = parseSourceFile(document.uri.fsPath, document.getText());
+    const references = findIndexReferences(sourceFile);
+    if (references.length === 0) {
+      this.collection.delete(document.uri);
+      return;
+    }
+
+    const projectInfo = await getConvexProjectInfo(
+      document.uri.fsPath,
+      document.getText(),
+    );
+    if (!projectInfo) {
+      return;
+    }
+    const tables = getSchemaTables(projectInfo.convexDir);
+
+    const diagnostics: vscode.Diagnostic[] = [];
+    for (const reference of references) {
+      const context = getIndexContext(reference, tables);
+      if (!context || context.validNames.includes(reference.indexName)) {
+        continue;
+      }
+
+      const label = INDEX_KIND_LABELS[reference.kind];
+      const otherKind = context.table.indexes.find(
+        (index) => index.name === reference.indexName,
+      );
+      const suggestion = findClosest(reference.indexName, context.validNames);
+      let message = otherKind
+        ? `"${reference.indexName}" is a ${INDEX_KIND_LABELS[otherKind.kind]} of table "${reference.tableName}", not a ${label}.`
+        : `Table "${reference.tableName}" has no ${label} "${reference.indexName}".`;
+      if (suggestion) {
+        message += ` Did you mean "${suggestion}"?`;
+      } else if (context.validNames.length > 0) {
+        message += ` Available: ${context.validNames.join(", ")}.`;
+      }
+
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(
+          document.positionAt(reference.start),
+          document.positionAt(reference.end),
+        ),
+        message,
+        vscode.DiagnosticSeverity.Error,
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = UNKNOWN_INDEX_CODE;
+      diagnostics.push(diagnostic);
+    }
+
+    this.collection.set(document.uri, diagnostics);
+  }
+
+  dispose(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.collection.dispose();
+  }
+}
+
+/**
+ * Quick fixes for unknown index names: one per valid index of the table,
+ * the closest match first
+ */
+export class IndexCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext,
+  ): Promise<vscode.CodeAction[]> {
+    const diagnostics = context.diagnostics.filter(
+      (d) => d.source === DIAGNOSTIC_SOURCE && d.code === UNKNOWN_INDEX_CODE,
+    );
+    if (diagnostics.length === 0) {
+      return [];
+    }
+
+    const projectInfo = await getConvexProjectInfo(
+      document.uri.fsPath,
+      document.getText(),
+    );
+    if (!projectInfo) {
+      return [];
+    }
+    const tables = getSchemaTables(projectInfo.convexDir);
+    const sourceFile = parseSourceFile(document.uri.fsPath, document.getText());
+
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of diagnostics) {
+      const reference = findIndexReferenceAtOffset(
+        sourceFile,
+        document.offsetAt(diagnostic.range.start),
+      );
+      const indexContext = reference && getIndexContext(reference, tables);
+      if (!reference || !indexContext) {
+        continue;
+      }
+
+      const suggestion = findClosest(
+        reference.indexName,
+        indexContext.validNames,
+      );
+      const names = suggestion
+        ? [
+            suggestion,
+            ...indexContext.validNames.filter((name) => name !== suggestion),
+          ]
+        : indexContext.validNames;
+
+      for (const name of names) {
+        const action = new vscode.CodeAction(
+          `Change to "${name}"`,
+          vscode.CodeActionKind.QuickFix,
+        );
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, diagnostic.range, name);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = name === suggestion;
+        actions.push(action);
+      }
+    }
+
+    return actions;
+  }
+}
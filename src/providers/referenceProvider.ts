@@ -1,43 +1,111 @@
 import * as vscode from "vscode";
 import * as cp from "child_process";
+import * as fs from "fs";
 import { getConfig } from "../config";
-import type { ConvexFunctionUsage, UsageSearchResult } from "../types";
-import { getConvexProjectInfo, getSearchPaths } from "../resolver/pathResolver";
+import type {
+  ConvexFunctionUsage,
+  ConvexProjectInfo,
+  UsageSearchResult,
+} from "../types";
+import {
+  getComponentReference,
+  getConvexProjectInfo,
+  getSearchPaths,
+  isInsideDirectory,
+} from "../resolver/pathResolver";
 import { findConvexFunctionAtPosition } from "../resolver/functionDetector";
+import { getWorkspaceIndex } from "../resolver/workspaceIndex";
+import {
+  classifyUsage,
+  findApiUsagesInSource,
+  getCallKind,
+  HOOK_PATTERN,
+} from "../resolver/referenceResolver";
 
 /**
  * Search for usages of a Convex function in the frontend code
- * Uses ripgrep for fast searching across the codebase
+ * Uses the workspace index when available, otherwise ripgrep for fast
+ * searching across the codebase
  *
- * TODO: For more accurate results, consider implementing AST-based search.
- * AST parsing would:
- *   - Identify actual usages vs. string literals or comments
- *   - Track variable assignments (e.g., const myApi = api.domains.contacts)
- *   - Handle dynamic property access
+ * Literal api.X.Y.Z matches are found first. Then every file mentioning the
+ * function name is parsed to follow local aliases (e.g., const contactsApi =
+ * api.domains.contacts, destructuring and renamed api imports).
+ *
+ * Only usages in files that resolve api.* against the project of the
+ * definition file are returned, so monorepos with several Convex backends
+ * do not mix up functions with the same path. Public functions of a Convex
+ * component are also searched as components.<name>.* in the parent project.
+ *
+ * Computed keys are only resolved when they are string literals or string
+ * constants of the same file (e.g., api.domains[moduleName] with
+ * const moduleName = "contacts").
  */
 export async function searchForUsages(
   apiPath: string,
   functionName: string,
+  definitionFile: string,
 ): Promise<UsageSearchResult> {
   const startTime = Date.now();
   const usages: ConvexFunctionUsage[] = [];
 
-  const projectInfo = await getConvexProjectInfo();
-  if (!projectInfo) {
-    return {
-      functionName,
+  const projectInfo = await getConvexProjectInfo(definitionFile);
+  if (projectInfo) {
+    usages.push(
+      ...(await searchProjectUsages(apiPath, functionName, projectInfo)),
+    );
+
+    // Public functions of a component are called by the parent project
+    // through components.<name>.*
+    const componentReference = await getComponentReference(
       apiPath,
-      usages: [],
-      searchTimeMs: Date.now() - startTime,
-    };
+      projectInfo,
+    );
+    if (componentReference) {
+      usages.push(
+        ...(await searchProjectUsages(
+          componentReference.apiPath,
+          functionName,
+          componentReference.projectInfo,
+        )),
+      );
+    }
   }
 
-  const searchPaths = await getSearchPaths();
+  return {
+    functionName,
+    apiPath,
+    usages,
+    searchTimeMs: Date.now() - startTime,
+  };
+}
+
+/**
+ * Search for usages of an API path in the files that resolve it against a project
+ */
+async function searchProjectUsages(
+  apiPath: string,
+  functionName: string,
+  projectInfo: ConvexProjectInfo,
+): Promise<ConvexFunctionUsage[]> {
+  const usages: ConvexFunctionUsage[] = [];
+
+  // Use the workspace index when it has been built
+  const index = getWorkspaceIndex();
+  if (index) {
+    return index.getUsages(apiPath, projectInfo.convexDir);
+  }
+
+  // Internal and component functions can only be called from server-side
+  // code, so the convex directory is always searched for them
+  const isServerOnly = /^(internal|components)\./.test(apiPath);
+  const searchPaths = getSearchPaths(projectInfo, isServerOnly);
   const config = getConfig();
 
   // Build the search pattern - escape dots for regex
+  // Word boundaries avoid matching longer names (e.g., createContactDraft)
   const escapedApiPath = apiPath.replace(/\./g, "\\.");
-  const searchPattern = escapedApiPath;
+  const searchPattern = `\\b${escapedApiPath}\\b`;
+  const namePattern = `\\b${functionName}\\b`;
 
   for (const searchPath of searchPaths) {
     try {
@@ -47,38 +115,117 @@ export async function searchForUsages(
         config.excludePatterns,
       );
 
+      // Literal matches that the parser does not confirm are in comments or strings
+      const literalUsages: ConvexFunctionUsage[] = [];
+      const confirmedUsages = new Set<ConvexFunctionUsage>();
+
       for (const result of results) {
         // Try to detect which hook is being used
-        const hookMatch = result.lineText.match(
-          /(useQuery|useMutation|useAction|usePaginatedQuery|useConvexQuery|useConvexMutation|ctx\.(runQuery|runMutation|runAction))\s*\(/,
-        );
+        const hookMatch = result.lineText.match(HOOK_PATTERN);
 
-        usages.push({
+        literalUsages.push({
           apiPath,
           filePath: result.filePath,
           line: result.line,
           column: result.column,
+          length: apiPath.length,
           lineText: result.lineText,
           hookUsed: hookMatch ? hookMatch[1] : undefined,
+          kind: classifyUsage(
+            result.filePath,
+            hookMatch ? getCallKind(hookMatch[1]) : undefined,
+          ),
+          isServerSide: isInsideDirectory(
+            result.filePath,
+            projectInfo.convexDir,
+          ),
         });
       }
+      usages.push(...literalUsages);
+
+      // Follow aliases in every file that mentions the function name
+      const candidates = await searchWithRipgrep(
+        namePattern,
+        searchPath,
+        config.excludePatterns,
+      );
+      const candidateFiles = new Set(candidates.map((c) => c.filePath));
+
+      for (const filePath of candidateFiles) {
+        const aliasUsages = await findAliasedUsagesInFile(
+          filePath,
+          apiPath,
+          config.apiImportPatterns,
+          isInsideDirectory(filePath, projectInfo.convexDir),
+        );
+
+        for (const usage of aliasUsages) {
+          const existing = usages.find(
+            (u) =>
+              u.filePath === usage.filePath &&
+              u.line === usage.line &&
+              u.column === usage.column,
+          );
+          if (existing) {
+            // Prefer the hook and kind detected from the AST
+            existing.hookUsed = usage.hookUsed ?? existing.hookUsed;
+            existing.kind = usage.kind;
+            confirmedUsages.add(existing);
+            continue;
+          }
+          usages.push(usage);
+        }
+      }
+
+      for (const usage of literalUsages) {
+        if (!confirmedUsages.has(usage)) {
+          usage.kind = "comment";
+        }
+      }
     } catch (error) {
       console.error(`Error searching in ${searchPath}:`, error);
     }
   }
 
-  return {
-    functionName,
-    apiPath,
-    usages,
-    searchTimeMs: Date.now() - startTime,
-  };
+  // Drop usages that resolve api.* against another project
+  const projectUsages: ConvexFunctionUsage[] = [];
+  for (const usage of usages) {
+    const usageProject = await getConvexProjectInfo(usage.filePath);
+    if (usageProject?.convexDir === projectInfo.convexDir) {
+      projectUsages.push(usage);
+    }
+  }
+
+  return projectUsages;
+}
+
+/**
+ * Parse a file and find references to an API path, following local aliases
+ */
+async function findAliasedUsagesInFile(
+  filePath: string,
+  apiPath: string,
+  apiObjectNames: string[],
+  isServerSide: boolean,
+): Promise<ConvexFunctionUsage[]> {
+  try {
+    const content = await fs.promises.readFile(filePath, "utf8");
+    return findApiUsagesInSource(
+      filePath,
+      content,
+      apiObjectNames,
+      isServerSide,
+    ).filter((usage) => usage.apiPath === apiPath);
+  } catch (error) {
+    console.error(`Error parsing file ${filePath}:`, error);
+    return [];
+  }
 }
 
 /**
  * Result from ripgrep search
  */
-interface RipgrepResult {
+export interface RipgrepResult {
   filePath: string;
   line: number;
   column: number;
@@ -89,7 +236,7 @@ interface RipgrepResult {
  * Execute ripgrep to search for a pattern
  * Falls back to VS Code's built-in search if ripgrep is not available
  */
-async function searchWithRipgrep(
+export async function searchWithRipgrep(
   pattern: string,
   searchPath: string,
   excludePatterns: string[],
@@ -257,23 +404,27 @@ export class ConvexReferenceProvider implements vscode.ReferenceProvider {
     const result = await searchForUsages(
       convexFunction.apiPath,
       convexFunction.name,
+      convexFunction.filePath,
     );
 
     if (token.isCancellationRequested) {
       return null;
     }
 
-    // Convert to VS Code locations
-    const locations: vscode.Location[] = result.usages.map((usage) => {
-      const uri = vscode.Uri.file(usage.filePath);
-      const range = new vscode.Range(
-        usage.line,
-        usage.column,
-        usage.line,
-        usage.column + convexFunction.apiPath.length,
-      );
-      return new vscode.Location(uri, range);
-    });
+    // Convert to VS Code locations. Mentions in comments and strings are
+    // not references; they are only listed in the Usages view.
+    const locations: vscode.Location[] = result.usages
+      .filter((usage) => usage.kind !== "comment")
+      .map((usage) => {
+        const uri = vscode.Uri.file(usage.filePath);
+        const range = new vscode.Range(
+          usage.line,
+          usage.column,
+          usage.line,
+          usage.column + usage.length,
+        );
+        return new vscode.Location(uri, range);
+      });
 
     // Include the definition itself if requested (for "Find All References")
     if (context.includeDeclaration) {
@@ -295,6 +446,7 @@ export class ConvexReferenceProvider implements vscode.ReferenceProvider {
 
 /**
  * Command handler for "Find Convex Usages"
+ * Shows the usages of the function at the cursor in the Usages view
  */
 export async function findConvexUsagesCommand(): Promise<void> {
   const editor = vscode.window.activeTextEditor;
@@ -307,6 +459,7 @@ export async function findConvexUsagesCommand(): Promise<void> {
   const convexFunction = await findConvexFunctionAtPosition(
     editor.document,
     position,
+    true,
   );
 
   if (!convexFunction) {
@@ -316,54 +469,9 @@ export async function findConvexUsagesCommand(): Promise<void> {
     return;
   }
 
-  // Show progress
-  await vscode.window.withProgress(
-    {
-      location: vscode.ProgressLocation.Notification,
-      title: `Finding usages of ${convexFunction.name}...`,
-      cancellable: true,
-    },
-    async (_progress, token) => {
-      const result = await searchForUsages(
-        convexFunction.apiPath,
-        convexFunction.name,
-      );
-
-      if (token.isCancellationRequested) {
-        return;
-      }
-
-      if (result.usages.length === 0) {
-        vscode.window.showInformationMessage(
-          `No usages found for ${convexFunction.name}`,
-        );
-        return;
-      }
-
-      // Show results in the references panel
-      const locations: vscode.Location[] = result.usages.map((usage) => {
-        const uri = vscode.Uri.file(usage.filePath);
-        const range = new vscode.Range(
-          usage.line,
-          usage.column,
-          usage.line,
-          usage.column + convexFunction.apiPath.length,
-        );
-        return new vscode.Location(uri, range);
-      });
-
-      // Use VS Code's built-in peek references view
-      await vscode.commands.executeCommand(
-        "editor.action.showReferences",
-        editor.document.uri,
-        position,
-        locations,
-      );
-
-      vscode.window.showInformationMessage(
-        `Found ${result.usages.length} usage(s) of ${convexFunction.name} (${result.searchTimeMs}ms)`,
-      );
-    },
+  await vscode.commands.executeCommand(
+    "convexNavigator.showUsageResults",
+    convexFunction,
   );
 }
 
@@ -408,6 +516,7 @@ export async function findAllReferencesCommand(): Promise<void> {
       const result = await searchForUsages(
         convexFunction.apiPath,
         convexFunction.name,
+        convexFunction.filePath,
       );
 
       if (token.isCancellationRequested) {
@@ -430,14 +539,17 @@ export async function findAllReferencesCommand(): Promise<void> {
         ),
       );
 
-      // Add all usages
+      // Add all usages, leaving out mentions in comments and strings
       for (const usage of result.usages) {
+        if (usage.kind === "comment") {
+          continue;
+        }
         const uri = vscode.Uri.file(usage.filePath);
         const range = new vscode.Range(
           usage.line,
           usage.column,
           usage.line,
-          usage.column + convexFunction.apiPath.length,
+          usage.column + usage.length,
         );
         locations.push(new vscode.Location(uri, range));
       }
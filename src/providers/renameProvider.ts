@@ -0,0 +1,264 @@
+import * as vscode from "vscode";
+import * as ts from "typescript";
+import { getAllWrappers, getConfig } from "../config";
+import type { ConvexFunctionDefinition } from "../types";
+import { resolveApiPath } from "../resolver/pathResolver";
+import {
+  findConvexFunctionAtPosition,
+  findConvexFunctionsInFile,
+  getExportedNames,
+  parseConvexFunctions,
+  parseSourceFile,
+} from "../resolver/functionDetector";
+import { findApiReferences } from "../resolver/referenceResolver";
+import { searchForUsages } from "./referenceProvider";
+
+/**
+ * Valid JavaScript identifier for a renamed export
+ */
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Find the Convex function whose name is under the cursor
+ *
+ * Works on the export name in a backend file and on the last segment of an
+ * api.X.Y.Z reference (including aliases like contactsApi.createContact).
+ */
+async function findRenameTarget(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+): Promise<{
+  definition: ConvexFunctionDefinition;
+  range: vscode.Range;
+} | null> {
+  const wordRange = document.getWordRangeAtPosition(position, /[\w$]+/);
+  if (!wordRange) {
+    return null;
+  }
+  const word = document.getText(wordRange);
+
+  // Backend: cursor on the exported name of a Convex function
+  const definition = await findConvexFunctionAtPosition(document, position);
+  if (
+    definition &&
+    definition.name === word &&
+    definition.line === wordRange.start.line &&
+    definition.column === wordRange.start.character
+  ) {
+    return { definition, range: wordRange };
+  }
+
+  // Frontend: cursor on the last segment of an API reference
+  const sourceFile = parseSourceFile(document.uri.fsPath, document.getText());
+  const offset = document.offsetAt(wordRange.end);
+  const reference = findApiReferences(
+    sourceFile,
+    getConfig().apiImportPatterns,
+  ).find((r) => r.end === offset && r.apiPath.endsWith(`.${word}`));
+  if (!reference) {
+    return null;
+  }
+
+  const resolved = await resolveApiPath(reference.apiPath, document.uri.fsPath);
+  if (!resolved) {
+    return null;
+  }
+  const functions = await findConvexFunctionsInFile(resolved.filePath);
+  const target = functions.find((f) => f.name === resolved.functionName);
+  return target ? { definition: target, range: wordRange } : null;
+}
+
+/**
+ * Check if a range overlaps any of the given ranges of the same document
+ */
+function overlaps(ranges: vscode.Range[], range: vscode.Range): boolean {
+  return ranges.some((r) => {
+    const intersection = r.intersection(range);
+    return intersection !== undefined && !intersection.isEmpty;
+  });
+}
+
+/**
+ * VS Code Rename Provider implementation
+ * Renames a Convex function export together with every api.X.Y.Z reference to it
+ *
+ * The export itself is renamed by the other rename providers (TypeScript), so
+ * local references, export { x } specifiers and direct imports follow along.
+ */
+export class ConvexRenameProvider implements vscode.RenameProvider {
+  /** Set while asking the other rename providers, which also reach this one */
+  private delegating = false;
+
+  async prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<{ range: vscode.Range; placeholder: string }> {
+    if (this.delegating) {
+      throw new Error("Not a Convex function");
+    }
+    const target = await findRenameTarget(document, position);
+    if (!target) {
+      // Let other rename providers (e.g., TypeScript) handle this position
+      throw new Error("Not a Convex function");
+    }
+    if (target.definition.name === "default") {
+      throw new Error("Default exports of Convex modules cannot be renamed");
+    }
+
+    return { range: target.range, placeholder: target.definition.name };
+  }
+
+  async provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.WorkspaceEdit | null> {
+    if (this.delegating) {
+      return null;
+    }
+    const target = await findRenameTarget(document, position);
+    if (!target) {
+      return null;
+    }
+
+    const { definition } = target;
+    const definitionDocument = await vscode.workspace.openTextDocument(
+      definition.filePath,
+    );
+    const sourceFile = parseSourceFile(
+      definition.filePath,
+      definitionDocument.getText(),
+    );
+    if (!IDENTIFIER_PATTERN.test(newName)) {
+      throw new Error(`"${newName}" is not a valid function name`);
+    }
+    if (
+      newName !== definition.name &&
+      getExportedNames(sourceFile).includes(newName)
+    ) {
+      throw new Error(
+        `"${newName}" is already exported from ${vscode.workspace.asRelativePath(definition.filePath)}`,
+      );
+    }
+
+    const edit = await this.renameExport(
+      definitionDocument,
+      sourceFile,
+      definition,
+      newName,
+    );
+    const editedRanges = new Map(
+      edit
+        .entries()
+        .map(([uri, edits]) => [uri.toString(), edits.map((e) => e.range)]),
+    );
+
+    const result = await searchForUsages(
+      definition.apiPath,
+      definition.name,
+      definition.filePath,
+    );
+    if (token.isCancellationRequested) {
+      return null;
+    }
+
+    // Rewrite the last segment of every usage. Mentions in comments and
+    // strings are not references, so they are left as written.
+    let skippedAliases = 0;
+    for (const usage of result.usages) {
+      if (usage.kind === "comment") {
+        continue;
+      }
+      const usageDocument = await vscode.workspace.openTextDocument(
+        usage.filePath,
+      );
+      const usageRange = new vscode.Range(
+        usage.line,
+        usage.column,
+        usage.line,
+        usage.column + usage.length,
+      );
+      const text = usageDocument.getText(usageRange);
+
+      // Destructured aliases (e.g., const { createContact } = api.x) would
+      // also need their binding pattern rewritten, so they are left alone
+      if (!text.endsWith(`.${definition.name}`)) {
+        skippedAliases++;
+        continue;
+      }
+
+      const end = usageRange.end;
+      const range = new vscode.Range(
+        end.translate(0, -definition.name.length),
+        end,
+      );
+      // Skip references TypeScript already renamed
+      if (
+        overlaps(editedRanges.get(usageDocument.uri.toString()) ?? [], range)
+      ) {
+        continue;
+      }
+      edit.replace(usageDocument.uri, range, newName);
+    }
+
+    if (skippedAliases > 0) {
+      vscode.window.showWarningMessage(
+        `${skippedAliases} destructured reference(s) to ${definition.name} were not renamed`,
+      );
+    }
+
+    return edit;
+  }
+
+  /**
+   * Rename the export and its TypeScript references (local uses, export
+   * specifiers, direct imports) with the other rename providers
+   * Falls back to renaming the exported name alone.
+   */
+  private async renameExport(
+    document: vscode.TextDocument,
+    sourceFile: ts.SourceFile,
+    definition: ConvexFunctionDefinition,
+    newName: string,
+  ): Promise<vscode.WorkspaceEdit> {
+    const parsed = parseConvexFunctions(sourceFile, getAllWrappers()).find(
+      (f) => f.name === definition.name,
+    );
+    const position = parsed
+      ? document.positionAt(parsed.exportNameStart)
+      : new vscode.Position(definition.line, definition.column);
+
+    this.delegating = true;
+    try {
+      const edit = await vscode.commands.executeCommand<
+        vscode.WorkspaceEdit | undefined
+      >(
+        "vscode.executeDocumentRenameProvider",
+        document.uri,
+        position,
+        newName,
+      );
+      if (edit && edit.size > 0) {
+        return edit;
+      }
+    } catch (error) {
+      console.error(`Error renaming ${definition.name}:`, error);
+    } finally {
+      this.delegating = false;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      document.uri,
+      new vscode.Range(
+        definition.line,
+        definition.column,
+        definition.line,
+        definition.column + definition.name.length,
+      ),
+      newName,
+    );
+    return edit;
+  }
+}
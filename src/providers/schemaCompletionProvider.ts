@@ -0,0 +1,149 @@
+import * as vscode from "vscode";
+import type { ConvexTableDefinition } from "../types";
+import {
+  getConvexProjectInfo,
+  isConvexBackendFile,
+} from "../resolver/pathResolver";
+import { parseSourceFile } from "../resolver/functionDetector";
+import {
+  findSchemaCompletionContext,
+  getSchemaTables,
+  SYSTEM_INDEXES,
+  type SchemaCompletionContext,
+} from "../resolver/schemaResolver";
+
+/**
+ * Get the field names an index query method can take at its position
+ *
+ * Index ranges compare fields in index order, so eq() takes the field after
+ * the eq() calls before it, followed by the implicit _creationTime. Search
+ * indexes take the search field in search() and their filter fields in eq().
+ */
+function getFieldCandidates(
+  table: ConvexTableDefinition,
+  context: Extract<SchemaCompletionContext, { kind: "field" }>,
+): string[] {
+  const systemFields = SYSTEM_INDEXES[context.indexName];
+  const index = table.indexes.find((i) => i.name === context.indexName);
+  if (index?.kind === "searchIndex") {
+    if (context.method === "search") {
+      return index.fields.slice(0, 1);
+    }
+    return context.method === "eq" ? index.fields.slice(1) : [];
+  }
+
+  const fields =
+    systemFields ?? (index ? [...index.fields, "_creationTime"] : []);
+  return context.method === "search"
+    ? []
+    : fields.slice(context.precedingEqs, context.precedingEqs + 1);
+}
+
+/**
+ * Build the completion items for a completion context
+ */
+function getCompletionItems(
+  context: SchemaCompletionContext,
+  tables: ConvexTableDefinition[],
+  range: vscode.Range,
+): vscode.CompletionItem[] {
+  if (context.kind === "table") {
+    return tables.map((table) => {
+      const item = new vscode.CompletionItem(
+        table.name,
+        vscode.CompletionItemKind.Struct,
+      );
+      item.detail = "table";
+      item.documentation = new vscode.MarkdownString().appendCodeblock(
+        table.fields,
+        "typescript",
+      );
+      item.range = range;
+      return item;
+    });
+  }
+
+  const table = tables.find((t) => t.name === context.tableName);
+  if (!table) {
+    return [];
+  }
+
+  if (context.kind === "index") {
+    const indexes = table.indexes
+      .filter((index) => index.kind === context.indexKind)
+      .map((index) => ({ name: index.name, fields: index.fields }));
+    if (context.indexKind === "index") {
+      indexes.push(
+        ...Object.entries(SYSTEM_INDEXES).map(([name, fields]) => ({
+          name,
+          fields,
+        })),
+      );
+    }
+    return indexes.map((index, position) => {
+      const item = new vscode.CompletionItem(
+        index.name,
+        vscode.CompletionItemKind.Property,
+      );
+      item.detail = `${context.indexKind} [${index.fields.join(", ")}]`;
+      // Keep the schema order, with system indexes last
+      item.sortText = String(position).padStart(3, "0");
+      item.range = range;
+      return item;
+    });
+  }
+
+  return getFieldCandidates(table, context).map((field) => {
+    const item = new vscode.CompletionItem(
+      field,
+      vscode.CompletionItemKind.Field,
+    );
+    item.detail = `${context.tableName}.${context.indexName}`;
+    item.range = range;
+    item.preselect = true;
+    return item;
+  });
+}
+
+/**
+ * VS Code Completion Item Provider implementation
+ * Completes table, index and field names in string arguments of ctx.db calls
+ * from convex/schema.ts
+ */
+export class SchemaCompletionProvider implements vscode.CompletionItemProvider {
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.CompletionItem[] | null> {
+    if (!(await isConvexBackendFile(document.uri.fsPath))) {
+      return null;
+    }
+
+    const sourceFile = parseSourceFile(document.uri.fsPath, document.getText());
+    const context = findSchemaCompletionContext(
+      sourceFile,
+      document.offsetAt(position),
+    );
+    if (!context) {
+      return null;
+    }
+
+    const projectInfo = await getConvexProjectInfo(
+      document.uri.fsPath,
+      document.getText(),
+    );
+    if (!projectInfo) {
+      return null;
+    }
+
+    const range = new vscode.Range(
+      document.positionAt(context.start),
+      document.positionAt(context.end),
+    );
+    return getCompletionItems(
+      context,
+      getSchemaTables(projectInfo.convexDir),
+      range,
+    );
+  }
+}
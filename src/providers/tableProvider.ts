@@ -0,0 +1,316 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { getConfig } from "../config";
+import type { ConvexProjectInfo, ConvexTableDefinition } from "../types";
+import { getConvexProjectInfo, getSearchPaths } from "../resolver/pathResolver";
+import { parseSourceFile } from "../resolver/functionDetector";
+import {
+  findIndexReferenceAtOffset,
+  findSchemaFile,
+  findTableReferenceAtOffset,
+  findTableReferences,
+  getSchemaTables,
+  SYSTEM_INDEXES,
+} from "../resolver/schemaResolver";
+import { searchWithRipgrep } from "./referenceProvider";
+
+/**
+ * Find the table at a position: a table name string in backend or frontend
+ * code (e.g., ctx.db.query("contacts")) or a table name in schema.ts
+ */
+async function getTableAtPosition(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+): Promise<{
+  table: ConvexTableDefinition;
+  projectInfo: ConvexProjectInfo;
+  range: vscode.Range;
+  isDefinition: boolean;
+} | null> {
+  const projectInfo = await getConvexProjectInfo(
+    document.uri.fsPath,
+    document.getText(),
+  );
+  if (!projectInfo) {
+    return null;
+  }
+  const tables = getSchemaTables(projectInfo.convexDir);
+
+  // On the table name in defineSchema({...})
+  if (document.uri.fsPath === findSchemaFile(projectInfo.convexDir)) {
+    const range = document.getWordRangeAtPosition(position);
+    const table = tables.find(
+      (t) => range?.start.line === t.line && range.start.character === t.column,
+    );
+    if (table && range) {
+      return { table, projectInfo, range, isDefinition: true };
+    }
+  }
+
+  const sourceFile = parseSourceFile(document.uri.fsPath, document.getText());
+  const reference = findTableReferenceAtOffset(
+    sourceFile,
+    document.offsetAt(position),
+  );
+  const table = reference && tables.find((t) => t.name === reference.tableName);
+  if (!reference || !table) {
+    return null;
+  }
+
+  return {
+    table,
+    projectInfo,
+    range: new vscode.Range(
+      document.positionAt(reference.start),
+      document.positionAt(reference.end),
+    ),
+    isDefinition: false,
+  };
+}
+
+/**
+ * Render the hover of an index name used by a query
+ * e.g., .withIndex("by_email", ...) -> the indexed fields in order
+ */
+async function getIndexHover(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+): Promise<vscode.Hover | null> {
+  const sourceFile = parseSourceFile(document.uri.fsPath, document.getText());
+  const reference = findIndexReferenceAtOffset(
+    sourceFile,
+    document.offsetAt(position),
+  );
+  if (!reference) {
+    return null;
+  }
+
+  const projectInfo = await getConvexProjectInfo(
+    document.uri.fsPath,
+    document.getText(),
+  );
+  const table =
+    projectInfo &&
+    getSchemaTables(projectInfo.convexDir).find(
+      (t) => t.name === reference.tableName,
+    );
+  const index = table?.indexes.find(
+    (i) => i.name === reference.indexName && i.kind === reference.kind,
+  );
+
+  // System indexes are defined by Convex on every table
+  const fields =
+    index?.fields ??
+    (reference.kind === "index"
+      ? SYSTEM_INDEXES[reference.indexName]
+      : undefined);
+  if (!table || !fields) {
+    return null;
+  }
+
+  const markdown = new vscode.MarkdownString();
+  markdown.isTrusted = { enabledCommands: ["vscode.open"] };
+  markdown.appendMarkdown(
+    `**${reference.indexName}** *(${index?.kind ?? "index"} on ${table.name})*\n\n`,
+  );
+
+  // Regular indexes are sorted by _creationTime after the declared fields
+  const orderedFields =
+    reference.kind === "index" && !fields.includes("_creationTime")
+      ? [...fields, "_creationTime"]
+      : fields;
+  markdown.appendMarkdown(
+    `${orderedFields.map((field, i) => `${i + 1}. \`${field}\``).join("\n")}\n\n`,
+  );
+
+  if (index) {
+    const commandUri = vscode.Uri.parse(
+      `command:vscode.open?${encodeURIComponent(
+        JSON.stringify([
+          vscode.Uri.file(table.filePath),
+          { selection: { startLine: index.line, startColumn: index.column } },
+        ]),
+      )}`,
+    );
+    markdown.appendMarkdown(
+      `[${vscode.workspace.asRelativePath(table.filePath)}:${index.line + 1}](${commandUri})`,
+    );
+  }
+
+  return new vscode.Hover(
+    markdown,
+    new vscode.Range(
+      document.positionAt(reference.start),
+      document.positionAt(reference.end),
+    ),
+  );
+}
+
+/**
+ * Search for the table name strings referring to a table of a project
+ */
+async function searchTableReferences(
+  tableName: string,
+  projectInfo: ConvexProjectInfo,
+): Promise<vscode.Location[]> {
+  const config = getConfig();
+  const pattern = `["'\`]${tableName}["'\`]`;
+  const candidateFiles = new Set<string>();
+  for (const searchPath of getSearchPaths(projectInfo, true)) {
+    const results = await searchWithRipgrep(
+      pattern,
+      searchPath,
+      config.excludePatterns,
+    );
+    results.forEach((result) => candidateFiles.add(result.filePath));
+  }
+
+  const locations: vscode.Location[] = [];
+  for (const filePath of candidateFiles) {
+    try {
+      const content = await fs.promises.readFile(filePath, "utf8");
+      const references = findTableReferences(
+        parseSourceFile(filePath, content),
+      ).filter((reference) => reference.tableName === tableName);
+      if (references.length === 0) {
+        continue;
+      }
+
+      // Tables with the same name in another project are not the same table
+      const fileProject = await getConvexProjectInfo(filePath, content);
+      if (fileProject?.convexDir !== projectInfo.convexDir) {
+        continue;
+      }
+
+      const document = await vscode.workspace.openTextDocument(filePath);
+      for (const reference of references) {
+        locations.push(
+          new vscode.Location(
+            document.uri,
+            new vscode.Range(
+              document.positionAt(reference.start),
+              document.positionAt(reference.end),
+            ),
+          ),
+        );
+      }
+    } catch (error) {
+      console.error(`Error searching table references in ${filePath}:`, error);
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * VS Code Definition Provider for table names
+ * Jumps from ctx.db.query("contacts"), v.id("contacts"), Id<"contacts"> and
+ * Doc<"contacts"> to the table in schema.ts
+ */
+export class ConvexTableDefinitionProvider
+  implements vscode.DefinitionProvider
+{
+  async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.LocationLink[] | null> {
+    const match = await getTableAtPosition(document, position);
+    if (!match || match.isDefinition || token.isCancellationRequested) {
+      return null;
+    }
+
+    const { table, range } = match;
+    const start = new vscode.Position(table.line, table.column);
+    return [
+      {
+        originSelectionRange: range,
+        targetUri: vscode.Uri.file(table.filePath),
+        targetRange: new vscode.Range(
+          start,
+          start.translate(0, table.name.length),
+        ),
+      },
+    ];
+  }
+}
+
+/**
+ * VS Code Hover Provider for table and index names
+ * Shows the table's fields and indexes from schema.ts, or the fields of an
+ * index used by .withIndex() / .withSearchIndex() / ctx.vectorSearch()
+ */
+export class ConvexTableHoverProvider implements vscode.HoverProvider {
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.Hover | null> {
+    const match = await getTableAtPosition(document, position);
+    if (!match) {
+      return getIndexHover(document, position);
+    }
+
+    const { table, range } = match;
+    const markdown = new vscode.MarkdownString();
+    markdown.isTrusted = { enabledCommands: ["vscode.open"] };
+
+    markdown.appendMarkdown(`**${table.name}** *(table)*\n\n`);
+    markdown.appendCodeblock(table.fields, "typescript");
+
+    if (table.indexes.length > 0) {
+      const indexes = table.indexes.map((index) => {
+        const kind = index.kind === "index" ? "" : ` *(${index.kind})*`;
+        return `- \`${index.name}\`${kind}: ${index.fields.join(", ")}`;
+      });
+      markdown.appendMarkdown(`Indexes:\n${indexes.join("\n")}\n\n`);
+    }
+
+    const commandUri = vscode.Uri.parse(
+      `command:vscode.open?${encodeURIComponent(
+        JSON.stringify([
+          vscode.Uri.file(table.filePath),
+          { selection: { startLine: table.line, startColumn: table.column } },
+        ]),
+      )}`,
+    );
+    markdown.appendMarkdown(
+      `[${vscode.workspace.asRelativePath(table.filePath)}:${table.line + 1}](${commandUri})`,
+    );
+
+    return new vscode.Hover(markdown, range);
+  }
+}
+
+/**
+ * VS Code Reference Provider for table names
+ * Lists the ctx.db calls, validators and types that refer to a table, from
+ * the table in schema.ts or from any of its references
+ */
+export class ConvexTableReferenceProvider implements vscode.ReferenceProvider {
+  async provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.Location[] | null> {
+    const match = await getTableAtPosition(document, position);
+    if (!match || token.isCancellationRequested) {
+      return null;
+    }
+
+    const { table, projectInfo } = match;
+    const locations = await searchTableReferences(table.name, projectInfo);
+
+    if (context.includeDeclaration) {
+      const start = new vscode.Position(table.line, table.column);
+      locations.unshift(
+        new vscode.Location(
+          vscode.Uri.file(table.filePath),
+          new vscode.Range(start, start.translate(0, table.name.length)),
+        ),
+      );
+    }
+
+    return locations;
+  }
+}
@@ -0,0 +1,195 @@
+import * as vscode from "vscode";
+import { getConfig } from "../config";
+import type { ConvexFunctionDefinition } from "../types";
+import {
+  getAllConvexFunctions,
+  getWorkspaceIndex,
+} from "../resolver/workspaceIndex";
+import { getConvexProjectInfo } from "../resolver/pathResolver";
+import { getHttpRoutes } from "../resolver/httpRouteResolver";
+import { searchForUsages } from "./referenceProvider";
+
+const ANALYSIS_DELAY_MS = 1000;
+
+/**
+ * Check if a function is excluded from unused analysis by the user's settings
+ *
+ * Each pattern is matched against the function name (e.g., "seed*") and its
+ * dotted path without the api/internal prefix (e.g., "domains.contacts.*").
+ * "*" matches any sequence of characters.
+ */
+function isExcluded(
+  definition: ConvexFunctionDefinition,
+  patterns: string[],
+): boolean {
+  const dottedPath = definition.apiPath.replace(/^(api|internal)\./, "");
+  return patterns.some((pattern) => {
+    const regex = new RegExp(
+      `^${pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*")}$`,
+    );
+    return regex.test(definition.name) || regex.test(dottedPath);
+  });
+}
+
+/**
+ * Find all exported Convex functions that are not referenced anywhere
+ * (frontend, server-side ctx.run*, scheduler, crons or http routes)
+ */
+export async function findUnusedFunctions(): Promise<
+  ConvexFunctionDefinition[]
+> {
+  const config = getConfig();
+  const definitions = await getAllConvexFunctions();
+  const unused: ConvexFunctionDefinition[] = [];
+
+  for (const definition of definitions) {
+    if (isExcluded(definition, config.unusedExcludePatterns)) {
+      continue;
+    }
+
+    // HTTP actions are used when a route of the HTTP router handles them
+    if (definition.type === "httpAction") {
+      const projectInfo = await getConvexProjectInfo(definition.filePath);
+      const routes = projectInfo ? getHttpRoutes(projectInfo.convexDir) : [];
+      if (
+        !routes.some(
+          (route) =>
+            route.handler?.filePath === definition.filePath &&
+            route.handler.name === definition.name,
+        )
+      ) {
+        unused.push(definition);
+      }
+      continue;
+    }
+    const result = await searchForUsages(
+      definition.apiPath,
+      definition.name,
+      definition.filePath,
+    );
+    // Mentions in comments and strings do not keep a function in use
+    if (result.usages.every((u) => u.kind === "comment")) {
+      unused.push(definition);
+    }
+  }
+
+  return unused;
+}
+
+/**
+ * Reports unused Convex functions as "unnecessary" hints on their export names
+ *
+ * Analysis only runs from the workspace index, so it re-runs cheaply whenever
+ * the index changes.
+ */
+export class UnusedFunctionsDiagnostics implements vscode.Disposable {
+  private readonly collection =
+    vscode.languages.createDiagnosticCollection("convex-unused");
+  private timer: NodeJS.Timeout | undefined;
+
+  /**
+   * Schedule a new analysis shortly after the last change
+   */
+  scheduleUpdate(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.update();
+    }, ANALYSIS_DELAY_MS);
+  }
+
+  /**
+   * Recompute diagnostics for all Convex functions
+   */
+  async update(): Promise<void> {
+    if (!getConfig().unusedFunctionDiagnostics || !getWorkspaceIndex()) {
+      this.collection.clear();
+      return;
+    }
+
+    const unused = await findUnusedFunctions();
+    const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+
+    for (const definition of unused) {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(
+          definition.line,
+          definition.column,
+          definition.line,
+          definition.column + definition.name.length,
+        ),
+        `Convex function "${definition.name}" is never used (${definition.apiPath})`,
+        vscode.DiagnosticSeverity.Hint,
+      );
+      diagnostic.source = "Convex Navigator";
+      diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+
+      const diagnostics = diagnosticsByFile.get(definition.filePath) ?? [];
+      diagnostics.push(diagnostic);
+      diagnosticsByFile.set(definition.filePath, diagnostics);
+    }
+
+    this.collection.clear();
+    for (const [filePath, diagnostics] of diagnosticsByFile) {
+      this.collection.set(vscode.Uri.file(filePath), diagnostics);
+    }
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.collection.dispose();
+  }
+}
+
+/**
+ * Command handler for "Show Unused Convex Functions"
+ */
+export async function showUnusedFunctionsCommand(): Promise<void> {
+  const unused = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "Finding unused Convex functions...",
+    },
+    () => findUnusedFunctions(),
+  );
+
+  if (unused.length === 0) {
+    vscode.window.showInformationMessage("No unused Convex functions found");
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    unused.map((definition) => ({
+      label: definition.name,
+      description: definition.apiPath,
+      detail: `${vscode.workspace.asRelativePath(definition.filePath)}:${
+        definition.line + 1
+      } · ${definition.wrapper}`,
+      definition,
+    })),
+    {
+      title: `${unused.length} unused Convex function(s)`,
+      placeHolder: "Select a function to open its definition",
+      matchOnDescription: true,
+    },
+  );
+
+  if (picked) {
+    const { definition } = picked;
+    await vscode.window.showTextDocument(vscode.Uri.file(definition.filePath), {
+      selection: new vscode.Range(
+        definition.line,
+        definition.column,
+        definition.line,
+        definition.column + definition.name.length,
+      ),
+    });
+  }
+}
@@ -0,0 +1,265 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import type {
+  ConvexFunctionDefinition,
+  ConvexFunctionUsage,
+  UsageKind,
+} from "../types";
+import { searchForUsages } from "./referenceProvider";
+
+/**
+ * Label and icon of each usage kind, in display order
+ */
+export const USAGE_KINDS: Record<UsageKind, { label: string; icon: string }> = {
+  reactive: { label: "Client-reactive", icon: "sync" },
+  serverRendered: { label: "Server-rendered", icon: "server-process" },
+  httpClient: { label: "HTTP client", icon: "cloud" },
+  optimistic: { label: "Optimistic updates", icon: "rocket" },
+  server: { label: "Server-side calls", icon: "server" },
+  scheduler: { label: "Scheduled", icon: "clock" },
+  cron: { label: "Cron jobs", icon: "watch" },
+  test: { label: "Tests", icon: "beaker" },
+  reference: { label: "References and imports", icon: "references" },
+  comment: { label: "Comments and strings", icon: "comment" },
+};
+
+/**
+ * A node in the Usages tree
+ */
+export type UsagesTreeNode =
+  | { kind: "group"; usageKind: UsageKind; usages: ConvexFunctionUsage[] }
+  | { kind: "file"; filePath: string; usages: ConvexFunctionUsage[] }
+  | { kind: "usage"; usage: ConvexFunctionUsage };
+
+/**
+ * VS Code Tree Data Provider implementation
+ * Shows the usages of a Convex function grouped by kind, then by file
+ */
+export class UsagesTreeProvider
+  implements vscode.TreeDataProvider<UsagesTreeNode>, vscode.Disposable
+{
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  private readonly view: vscode.TreeView<UsagesTreeNode>;
+  private definition: ConvexFunctionDefinition | undefined;
+  private usages: ConvexFunctionUsage[] = [];
+  private readonly hiddenKinds = new Set<UsageKind>();
+
+  constructor() {
+    this.view = vscode.window.createTreeView("convexNavigator.usages", {
+      treeDataProvider: this,
+      showCollapseAll: true,
+    });
+  }
+
+  /**
+   * Search for usages of a function and show them in the view
+   */
+  async showUsages(definition: ConvexFunctionDefinition): Promise<void> {
+    const result = await vscode.window.withProgress(
+      {
+        location: { viewId: "convexNavigator.usages" },
+        title: `Finding usages of ${definition.name}...`,
+      },
+      () =>
+        searchForUsages(
+          definition.apiPath,
+          definition.name,
+          definition.filePath,
+        ),
+    );
+
+    this.definition = definition;
+    this.usages = result.usages;
+    this.update();
+
+    await vscode.commands.executeCommand(
+      "setContext",
+      "convexNavigator.hasUsageResults",
+      true,
+    );
+    await vscode.commands.executeCommand("convexNavigator.usages.focus");
+  }
+
+  /**
+   * Search again for the function shown (e.g., after files changed)
+   */
+  async refresh(): Promise<void> {
+    if (!this.definition) {
+      return;
+    }
+    const result = await searchForUsages(
+      this.definition.apiPath,
+      this.definition.name,
+      this.definition.filePath,
+    );
+    this.usages = result.usages;
+    this.update();
+  }
+
+  /**
+   * Remove the results and hide the view
+   */
+  async clear(): Promise<void> {
+    this.definition = undefined;
+    this.usages = [];
+    this.update();
+    await vscode.commands.executeCommand(
+      "setContext",
+      "convexNavigator.hasUsageResults",
+      false,
+    );
+  }
+
+  /**
+   * Pick which usage kinds are shown
+   */
+  async filter(): Promise<void> {
+    const counts = this.countByKind();
+    const picks = await vscode.window.showQuickPick(
+      (Object.keys(USAGE_KINDS) as UsageKind[]).map((usageKind) => ({
+        label: USAGE_KINDS[usageKind].label,
+        description: `${counts.get(usageKind) ?? 0}`,
+        picked: !this.hiddenKinds.has(usageKind),
+        usageKind,
+      })),
+      { canPickMany: true, placeHolder: "Usage kinds to show" },
+    );
+    if (!picks) {
+      return;
+    }
+
+    this.hiddenKinds.clear();
+    for (const usageKind of Object.keys(USAGE_KINDS) as UsageKind[]) {
+      if (!picks.some((pick) => pick.usageKind === usageKind)) {
+        this.hiddenKinds.add(usageKind);
+      }
+    }
+    this.update();
+  }
+
+  getTreeItem(node: UsagesTreeNode): vscode.TreeItem {
+    if (node.kind === "group") {
+      const item = new vscode.TreeItem(
+        USAGE_KINDS[node.usageKind].label,
+        vscode.TreeItemCollapsibleState.Expanded,
+      );
+      item.iconPath = new vscode.ThemeIcon(USAGE_KINDS[node.usageKind].icon);
+      item.description = `${node.usages.length}`;
+      return item;
+    }
+
+    if (node.kind === "file") {
+      const item = new vscode.TreeItem(
+        vscode.Uri.file(node.filePath),
+        vscode.TreeItemCollapsibleState.Expanded,
+      );
+      item.description = `${vscode.workspace.asRelativePath(path.dirname(node.filePath))} · ${node.usages.length}`;
+      return item;
+    }
+
+    const { usage } = node;
+    const item = new vscode.TreeItem(
+      usage.lineText,
+      vscode.TreeItemCollapsibleState.None,
+    );
+    item.description = `${usage.line + 1}`;
+    item.tooltip = usage.hookUsed
+      ? `${usage.hookUsed}(${usage.apiPath})`
+      : usage.apiPath;
+    item.command = {
+      command: "vscode.open",
+      title: "Go to Usage",
+      arguments: [
+        vscode.Uri.file(usage.filePath),
+        {
+          selection: new vscode.Range(
+            usage.line,
+            usage.column,
+            usage.line,
+            usage.column + usage.length,
+          ),
+        },
+      ],
+    };
+    return item;
+  }
+
+  getChildren(node?: UsagesTreeNode): UsagesTreeNode[] {
+    if (!node) {
+      const groups = new Map<UsageKind, ConvexFunctionUsage[]>();
+      for (const usage of this.getVisibleUsages()) {
+        const usageKind = usage.kind;
+        groups.set(usageKind, [...(groups.get(usageKind) ?? []), usage]);
+      }
+      return (Object.keys(USAGE_KINDS) as UsageKind[])
+        .filter((usageKind) => groups.has(usageKind))
+        .map((usageKind) => ({
+          kind: "group",
+          usageKind,
+          usages: groups.get(usageKind)!,
+        }));
+    }
+
+    if (node.kind === "group") {
+      const files = new Map<string, ConvexFunctionUsage[]>();
+      for (const usage of node.usages) {
+        files.set(usage.filePath, [
+          ...(files.get(usage.filePath) ?? []),
+          usage,
+        ]);
+      }
+      return [...files.keys()].sort().map((filePath) => ({
+        kind: "file",
+        filePath,
+        usages: files.get(filePath)!,
+      }));
+    }
+
+    if (node.kind === "file") {
+      return [...node.usages]
+        .sort((a, b) => a.line - b.line || a.column - b.column)
+        .map((usage) => ({ kind: "usage", usage }));
+    }
+    return [];
+  }
+
+  dispose(): void {
+    this.view.dispose();
+    this.changeEmitter.dispose();
+  }
+
+  private getVisibleUsages(): ConvexFunctionUsage[] {
+    return this.usages.filter((u) => !this.hiddenKinds.has(u.kind));
+  }
+
+  private countByKind(): Map<UsageKind, number> {
+    const counts = new Map<UsageKind, number>();
+    for (const usage of this.usages) {
+      const usageKind = usage.kind;
+      counts.set(usageKind, (counts.get(usageKind) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * Redraw the tree and show the function and counts in the view title
+   */
+  private update(): void {
+    if (this.definition) {
+      const visible = this.getVisibleUsages().length;
+      const total = this.usages.length;
+      this.view.description =
+        visible === total
+          ? `${this.definition.name} · ${total}`
+          : `${this.definition.name} · ${visible} of ${total}`;
+      this.view.message =
+        total === 0 ? `No usages found for ${this.definition.name}` : undefined;
+    } else {
+      this.view.description = undefined;
+      this.view.message = undefined;
+    }
+    this.changeEmitter.fire();
+  }
+}
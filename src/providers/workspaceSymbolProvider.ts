@@ -0,0 +1,77 @@
+import * as vscode from "vscode";
+import type { ConvexFunctionDefinition } from "../types";
+import { isExcludedPath } from "../resolver/pathResolver";
+import { getAllConvexFunctions } from "../resolver/workspaceIndex";
+
+/**
+ * Check if the characters of a query appear in order in a candidate, ignoring case
+ * e.g., "contacts.create" and "crtContact" both match "api.domains.contacts.createContact"
+ */
+function fuzzyMatch(query: string, candidate: string): boolean {
+  const lowerCandidate = candidate.toLowerCase();
+  let index = 0;
+  for (const char of query.toLowerCase()) {
+    index = lowerCandidate.indexOf(char, index);
+    if (index === -1) {
+      return false;
+    }
+    index++;
+  }
+  return true;
+}
+
+/**
+ * Describe the type of a function, with its wrapper when it is a custom one
+ * e.g., "mutation", "mutation (authedMutation)"
+ */
+function describeType(definition: ConvexFunctionDefinition): string {
+  return definition.wrapper === definition.type
+    ? definition.type
+    : `${definition.type} (${definition.wrapper})`;
+}
+
+/**
+ * VS Code Workspace Symbol Provider implementation
+ * Lists Convex functions by API path in "Go to Symbol in Workspace" (Ctrl+T)
+ *
+ * Symbols are named after the full API path, so both the function name
+ * (createContact) and the dotted module path (contacts.create) match.
+ */
+export class ConvexWorkspaceSymbolProvider
+  implements vscode.WorkspaceSymbolProvider
+{
+  async provideWorkspaceSymbols(
+    query: string,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.SymbolInformation[]> {
+    const definitions = await getAllConvexFunctions();
+    if (token.isCancellationRequested) {
+      return [];
+    }
+
+    return definitions
+      .filter(
+        (definition) =>
+          // Skip components installed from packages (node_modules)
+          !isExcludedPath(definition.filePath) &&
+          fuzzyMatch(query.replace(/\s+/g, ""), definition.apiPath),
+      )
+      .map(
+        (definition) =>
+          new vscode.SymbolInformation(
+            definition.apiPath,
+            vscode.SymbolKind.Function,
+            describeType(definition),
+            new vscode.Location(
+              vscode.Uri.file(definition.filePath),
+              new vscode.Range(
+                definition.line,
+                definition.column,
+                definition.line,
+                definition.column + definition.name.length,
+              ),
+            ),
+          ),
+      );
+  }
+}
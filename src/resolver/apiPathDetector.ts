@@ -0,0 +1,72 @@
+import * as vscode from "vscode";
+
+/**
+ * Regex to match api.X.Y.Z patterns in code
+ * Matches: api.domains.contacts.createContact
+ * Also matches: internal.domains.contacts.createContact
+ * And component functions: components.rateLimiter.lib.rateLimit
+ */
+export const API_PATH_PATTERN = /\b(api|internal|components)(\.\w+)+\b/g;
+
+/**
+ * Extract the API path at a given position in the document
+ */
+export function getApiPathAtPosition(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+): { apiPath: string; range: vscode.Range } | null {
+  const line = document.lineAt(position.line).text;
+  const pattern = new RegExp(API_PATH_PATTERN.source, "g");
+
+  let match: RegExpExecArray | null = pattern.exec(line);
+  while (match !== null) {
+    const startCol = match.index;
+    const endCol = match.index + match[0].length;
+
+    // Check if position is within this match
+    if (position.character >= startCol && position.character <= endCol) {
+      return {
+        apiPath: match[0],
+        range: new vscode.Range(position.line, startCol, position.line, endCol),
+      };
+    }
+
+    match = pattern.exec(line);
+  }
+
+  return null;
+}
+
+/**
+ * Extract the API path at a given position, cut off after the segment under the cursor
+ * e.g., cursor on "contacts" in "api.domains.contacts.createContact" -> "api.domains.contacts"
+ *
+ * When the cursor is on the "api"/"internal"/"components" root, the full path is returned.
+ */
+export function getApiPathPrefixAtPosition(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+): { apiPath: string; range: vscode.Range } | null {
+  const apiMatch = getApiPathAtPosition(document, position);
+  if (!apiMatch) {
+    return null;
+  }
+
+  const { apiPath, range } = apiMatch;
+  const offset = position.character - range.start.character;
+  const rootLength = apiPath.indexOf(".");
+
+  if (offset <= rootLength) {
+    return apiMatch;
+  }
+
+  const segmentEnd = apiPath.indexOf(".", offset);
+  if (segmentEnd === -1) {
+    return apiMatch;
+  }
+
+  return {
+    apiPath: apiPath.slice(0, segmentEnd),
+    range: new vscode.Range(range.start, range.start.translate(0, segmentEnd)),
+  };
+}
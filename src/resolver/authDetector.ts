@@ -0,0 +1,111 @@
+import * as fs from "fs";
+import * as ts from "typescript";
+import { getAllWrappers, getConfig } from "../config";
+import type {
+  ConvexAuthAuditEntry,
+  ConvexFunctionDefinition,
+  ConvexFunctionType,
+} from "../types";
+import { getConvexProjectInfo, isExcludedPath } from "./pathResolver";
+import {
+  parseConvexFunctions,
+  parseSourceFile,
+  type ParsedConvexFunction,
+} from "./functionDetector";
+import { getAllConvexFunctions } from "./workspaceIndex";
+
+/**
+ * Function types that clients can call directly
+ */
+const PUBLIC_FUNCTION_TYPES: ConvexFunctionType[] = [
+  "query",
+  "mutation",
+  "action",
+  "httpAction",
+];
+
+/**
+ * Check if a node contains a ctx.auth.getUserIdentity() call
+ */
+export function hasIdentityCheck(node: ts.Node): boolean {
+  let found = false;
+  const visit = (child: ts.Node) => {
+    if (found) {
+      return;
+    }
+    if (
+      ts.isCallExpression(child) &&
+      ts.isPropertyAccessExpression(child.expression) &&
+      child.expression.name.text === "getUserIdentity" &&
+      ts.isPropertyAccessExpression(child.expression.expression) &&
+      child.expression.expression.name.text === "auth"
+    ) {
+      found = true;
+      return;
+    }
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return found;
+}
+
+/**
+ * Find every public function of the workspace and how it checks authentication
+ *
+ * Functions of Convex components are skipped: clients cannot call them, only
+ * the app installing the component can. Only direct ctx.auth.getUserIdentity()
+ * calls in the function's definition count as identity checks, not calls made
+ * by helpers it invokes.
+ */
+export async function auditFunctionAuth(): Promise<ConvexAuthAuditEntry[]> {
+  const { authenticatedWrappers } = getConfig();
+  const wrappers = getAllWrappers();
+
+  const definitionsByFile = new Map<string, ConvexFunctionDefinition[]>();
+  for (const definition of await getAllConvexFunctions()) {
+    if (
+      !PUBLIC_FUNCTION_TYPES.includes(definition.type) ||
+      isExcludedPath(definition.filePath)
+    ) {
+      continue;
+    }
+    const definitions = definitionsByFile.get(definition.filePath) ?? [];
+    definitions.push(definition);
+    definitionsByFile.set(definition.filePath, definitions);
+  }
+
+  const entries: ConvexAuthAuditEntry[] = [];
+  for (const [filePath, definitions] of definitionsByFile) {
+    const projectInfo = await getConvexProjectInfo(filePath);
+    if (!projectInfo || projectInfo.component) {
+      continue;
+    }
+
+    let parsed: ParsedConvexFunction[] = [];
+    try {
+      const content = await fs.promises.readFile(filePath, "utf8");
+      parsed = parseConvexFunctions(
+        parseSourceFile(filePath, content),
+        wrappers,
+      );
+    } catch (error) {
+      console.error(`Error parsing file ${filePath}:`, error);
+    }
+
+    for (const definition of definitions) {
+      const call = parsed.find((f) => f.name === definition.name)?.call;
+      entries.push({
+        definition,
+        status: authenticatedWrappers.includes(definition.wrapper)
+          ? "authenticatedWrapper"
+          : call && hasIdentityCheck(call)
+            ? "identityCheck"
+            : "unprotected",
+      });
+    }
+  }
+
+  return entries.sort((a, b) =>
+    a.definition.apiPath.localeCompare(b.definition.apiPath),
+  );
+}
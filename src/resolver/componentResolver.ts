@@ -0,0 +1,223 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as ts from "typescript";
+
+/**
+ * A Convex component installed with app.use() in a convex.config.ts
+ */
+export interface InstalledComponent {
+  /** Name the component is reachable by (components.<name>.*) */
+  name: string;
+  /** Absolute path to the component's convex directory */
+  convexDir: string;
+  /** Path to the component's convex.config file */
+  configPath: string;
+}
+
+/**
+ * Export conditions to try when resolving a component package, in order
+ * Convex components publish their TypeScript sources under "@convex-dev/component-source".
+ */
+const EXPORT_CONDITIONS = [
+  "@convex-dev/component-source",
+  "import",
+  "require",
+  "default",
+];
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+
+/**
+ * Find the components installed by a convex.config.ts
+ *
+ * Parses calls like:
+ *   import rateLimiter from "@convex-dev/rate-limiter/convex.config";
+ *   app.use(rateLimiter);
+ *   app.use(workpool, { name: "emailWorkpool" });
+ */
+export function findInstalledComponents(
+  configPath: string,
+): InstalledComponent[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(configPath, "utf8");
+  } catch {
+    return [];
+  }
+
+  const sourceFile = ts.createSourceFile(
+    configPath,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+  );
+
+  // Map local import names to the imported module specifier
+  const imports = new Map<string, string>();
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      statement.importClause?.name
+    ) {
+      imports.set(
+        statement.importClause.name.text,
+        statement.moduleSpecifier.text,
+      );
+    }
+  }
+
+  const components: InstalledComponent[] = [];
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === "use" &&
+      node.arguments.length > 0 &&
+      ts.isIdentifier(node.arguments[0])
+    ) {
+      const localName = node.arguments[0].text;
+      const specifier = imports.get(localName);
+      const componentConfig = specifier
+        ? resolveComponentConfig(configPath, specifier)
+        : undefined;
+
+      if (componentConfig) {
+        components.push({
+          name:
+            getNameOption(node.arguments[1]) ??
+            getDefinedComponentName(componentConfig) ??
+            localName,
+          convexDir: path.dirname(componentConfig),
+          configPath: componentConfig,
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return components;
+}
+
+/**
+ * Read the name option of app.use(component, { name: "..." })
+ */
+function getNameOption(options: ts.Expression | undefined): string | undefined {
+  if (!options || !ts.isObjectLiteralExpression(options)) {
+    return undefined;
+  }
+  for (const property of options.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      property.name.getText() === "name" &&
+      ts.isStringLiteralLike(property.initializer)
+    ) {
+      return property.initializer.text;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the default name from defineComponent("name") in a component's config
+ */
+function getDefinedComponentName(configPath: string): string | undefined {
+  try {
+    const content = fs.readFileSync(configPath, "utf8");
+    return /defineComponent\(\s*["'`]([\w-]+)["'`]/.exec(content)?.[1];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve the import of a component's convex.config to a file
+ * Relative imports point to local components, others to node_modules packages.
+ */
+function resolveComponentConfig(
+  fromFile: string,
+  specifier: string,
+): string | undefined {
+  if (specifier.startsWith(".")) {
+    return findSourceFile(path.resolve(path.dirname(fromFile), specifier));
+  }
+
+  const parts = specifier.split("/");
+  const packageName = parts
+    .slice(0, specifier.startsWith("@") ? 2 : 1)
+    .join("/");
+  const subpath = parts.slice(packageName.split("/").length).join("/");
+
+  // Walk up from the config file looking for the package in node_modules
+  let dir = path.dirname(fromFile);
+  let previous: string | undefined;
+  while (dir !== previous) {
+    const packageDir = path.join(dir, "node_modules", packageName);
+    if (fs.existsSync(packageDir)) {
+      return resolvePackageFile(packageDir, subpath);
+    }
+    previous = dir;
+    dir = path.dirname(dir);
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a subpath of a package, honoring its package.json "exports"
+ */
+function resolvePackageFile(
+  packageDir: string,
+  subpath: string,
+): string | undefined {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(packageDir, "package.json"), "utf8"),
+    );
+    const target = pickExportTarget(
+      packageJson.exports?.[subpath ? `./${subpath}` : "."],
+    );
+    if (target) {
+      return findSourceFile(path.join(packageDir, target));
+    }
+  } catch {
+    // No readable package.json; fall back to the plain file path
+  }
+
+  return findSourceFile(path.join(packageDir, subpath));
+}
+
+/**
+ * Pick the file of a package.json "exports" entry, following nested conditions
+ */
+function pickExportTarget(entry: unknown): string | undefined {
+  if (typeof entry === "string") {
+    return entry;
+  }
+  if (!entry || typeof entry !== "object") {
+    return undefined;
+  }
+  const conditions = entry as Record<string, unknown>;
+  for (const condition of EXPORT_CONDITIONS) {
+    const target = pickExportTarget(conditions[condition]);
+    if (target) {
+      return target;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find a source file, trying the path as-is and with common extensions
+ */
+function findSourceFile(filePath: string): string | undefined {
+  // Compiled imports often use ".js" for TypeScript sources
+  const withoutJs = filePath.replace(/\.js$/, "");
+  const candidates = [
+    filePath,
+    ...SOURCE_EXTENSIONS.map((ext) => withoutJs + ext),
+  ];
+  return candidates.find(
+    (candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile(),
+  );
+}
@@ -0,0 +1,190 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as ts from "typescript";
+import { getConfig } from "../config";
+import type { ConvexCronJob } from "../types";
+import { parseSourceFile, unwrapExpression } from "./functionDetector";
+import { CRON_METHODS, findApiReferences } from "./referenceResolver";
+
+const CRONS_FILES = ["crons.ts", "crons.js"];
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+/**
+ * Find the crons file of a convex directory
+ */
+export function findCronsFile(convexDir: string): string | undefined {
+  return CRONS_FILES.map((file) => path.join(convexDir, file)).find((file) =>
+    fs.existsSync(file),
+  );
+}
+
+/**
+ * Get the cron jobs scheduled in the crons file of a convex directory
+ */
+export function getCronJobs(convexDir: string): ConvexCronJob[] {
+  const cronsPath = findCronsFile(convexDir);
+  if (!cronsPath) {
+    return [];
+  }
+
+  try {
+    return parseCronJobs(
+      parseSourceFile(cronsPath, fs.readFileSync(cronsPath, "utf8")),
+    );
+  } catch (error) {
+    console.error(`Error parsing cron jobs ${cronsPath}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Find the cron jobs of a crons file
+ *
+ * Detects calls on a cronJobs() object:
+ *   crons.interval("clear presence", { minutes: 5 }, internal.presence.clear)
+ *   crons.daily("send digest", { hourUTC: 9, minuteUTC: 30 }, internal.emails.sendDigest, {})
+ *   crons.cron("cleanup", "0 3 * * *", internal.cleanup.run)
+ */
+export function parseCronJobs(sourceFile: ts.SourceFile): ConvexCronJob[] {
+  const cronVariables = new Set<string>();
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) {
+      continue;
+    }
+    for (const declaration of statement.declarationList.declarations) {
+      if (
+        ts.isIdentifier(declaration.name) &&
+        declaration.initializer &&
+        ts.isCallExpression(declaration.initializer) &&
+        ts.isIdentifier(declaration.initializer.expression) &&
+        declaration.initializer.expression.text === "cronJobs"
+      ) {
+        cronVariables.add(declaration.name.text);
+      }
+    }
+  }
+
+  // Scheduled functions resolved by their position in the file
+  const references = findApiReferences(
+    sourceFile,
+    getConfig().apiImportPatterns,
+  );
+
+  const jobs: ConvexCronJob[] = [];
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      ts.isIdentifier(node.expression.expression) &&
+      cronVariables.has(node.expression.expression.text) &&
+      CRON_METHODS.includes(node.expression.name.text)
+    ) {
+      const [nameArgument, scheduleArgument, functionArgument] = node.arguments;
+      if (nameArgument && ts.isStringLiteralLike(nameArgument)) {
+        const method = node.expression.name.text;
+        const functionStart = functionArgument
+          ? unwrapExpression(functionArgument).getStart(sourceFile)
+          : -1;
+        const position = sourceFile.getLineAndCharacterOfPosition(
+          node.getStart(sourceFile),
+        );
+        jobs.push({
+          name: nameArgument.text,
+          method,
+          schedule: describeSchedule(method, scheduleArgument, sourceFile),
+          apiPath: references.find((r) => r.start === functionStart)?.apiPath,
+          filePath: sourceFile.fileName,
+          line: position.line,
+          column: position.character,
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return jobs;
+}
+
+/**
+ * Describe the schedule of a cron job in words
+ * e.g., daily + { hourUTC: 9, minuteUTC: 30 } -> "every day at 09:30 UTC"
+ */
+function describeSchedule(
+  method: string,
+  schedule: ts.Expression | undefined,
+  sourceFile: ts.SourceFile,
+): string {
+  if (!schedule) {
+    return method;
+  }
+
+  if (method === "cron") {
+    return ts.isStringLiteralLike(schedule)
+      ? `cron "${schedule.text}" (UTC)`
+      : `cron ${schedule.getText(sourceFile)}`;
+  }
+
+  if (!ts.isObjectLiteralExpression(schedule)) {
+    return `${method} ${schedule.getText(sourceFile)}`;
+  }
+
+  const values = new Map<string, string>();
+  for (const property of schedule.properties) {
+    if (ts.isPropertyAssignment(property)) {
+      const value = property.initializer;
+      values.set(
+        property.name.getText(sourceFile),
+        ts.isStringLiteralLike(value) ? value.text : value.getText(sourceFile),
+      );
+    }
+  }
+
+  const time = `${pad(values.get("hourUTC"))}:${pad(values.get("minuteUTC"))} UTC`;
+  switch (method) {
+    case "interval": {
+      const unit = ["seconds", "minutes", "hours"].find((u) => values.has(u));
+      if (!unit) {
+        return "interval";
+      }
+      const count = values.get(unit)!;
+      return count === "1"
+        ? `every ${unit.slice(0, -1)}`
+        : `every ${count} ${unit}`;
+    }
+    case "hourly":
+      return `every hour at :${pad(values.get("minuteUTC"))} UTC`;
+    case "daily":
+      return `every day at ${time}`;
+    case "weekly": {
+      const day = values.get("dayOfWeek") ?? "";
+      const dayName = WEEKDAYS.includes(day)
+        ? day[0].toUpperCase() + day.slice(1)
+        : day;
+      return `every ${dayName} at ${time}`;
+    }
+    case "monthly":
+      return `on day ${values.get("day") ?? "?"} of every month at ${time}`;
+    default:
+      return method;
+  }
+}
+
+/**
+ * Pad an hour or minute to two digits (e.g., "9" -> "09"); missing values default to "00"
+ */
+function pad(value: string | undefined): string {
+  if (value === undefined) {
+    return "00";
+  }
+  return /^\d$/.test(value) ? `0${value}` : value;
+}
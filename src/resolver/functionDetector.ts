@@ -1,42 +1,328 @@
 import * as vscode from "vscode";
+import * as ts from "typescript";
 import { getAllWrappers } from "../config";
 import type { ConvexFunctionDefinition, ConvexFunctionType } from "../types";
-import { getConvexProjectInfo, computeApiPath } from "./pathResolver";
+import {
+  getConvexProjectInfo,
+  computeApiPath,
+  isConvexBackendFile,
+} from "./pathResolver";
 
 /**
- * Regex pattern to match Convex function exports
- * Matches patterns like:
- *   export const functionName = query({...})
- *   export const functionName = mutation({...})
- *   export const functionName = authedMutation({...})
- *
- * Note: This uses regex for simplicity and speed.
- * TODO: For more accurate detection, consider using TypeScript AST parsing.
- * AST parsing would handle edge cases like:
- *   - Multi-line declarations
- *   - Aliased imports (e.g., import { query as q } from "convex/server")
- *   - Re-exports
- * For AST parsing, use the TypeScript compiler API:
- *   import * as ts from "typescript";
- *   const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true);
- *   // Walk the AST to find export declarations
- */
-function buildFunctionPattern(wrappers: string[]): RegExp {
-  const wrappersPattern = wrappers.join("|");
-  // Match: export const <name> = <wrapper>({
-  // Also handles: export const <name> = <wrapper><GenericType>({
-  return new RegExp(
-    `export\\s+const\\s+(\\w+)\\s*=\\s*(${wrappersPattern})(?:<[^>]+>)?\\s*\\(`,
-    "g",
+ * A Convex function export found in a source file's AST
+ */
+export interface ParsedConvexFunction {
+  /** Exported name ("default" for default exports) */
+  name: string;
+  /** The wrapper function used, with import aliases resolved */
+  wrapper: string;
+  /** Offset where the exported name starts */
+  nameStart: number;
+  /** Offset of the name in the export itself (the specifier of export { x }) */
+  exportNameStart: number;
+  /** Name of the module-level variable holding the function, if any */
+  localName?: string;
+  /** Offset of the start of the declaring statement */
+  declarationStart: number;
+  /** Offset of the end of the declaring statement */
+  declarationEnd: number;
+  /** The wrapper call expression (e.g., query({...})) */
+  call: ts.CallExpression;
+}
+
+/**
+ * Parse a source file into a TypeScript AST
+ */
+export function parseSourceFile(
+  fileName: string,
+  content: string,
+): ts.SourceFile {
+  return ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(fileName),
   );
 }
 
+/**
+ * Determine the script kind from the file extension
+ */
+function getScriptKind(fileName: string): ts.ScriptKind {
+  if (fileName.endsWith(".tsx")) {
+    return ts.ScriptKind.TSX;
+  }
+  if (fileName.endsWith(".jsx")) {
+    return ts.ScriptKind.JSX;
+  }
+  if (fileName.endsWith(".js")) {
+    return ts.ScriptKind.JS;
+  }
+  return ts.ScriptKind.TS;
+}
+
+/**
+ * Remove parentheses and type assertions around an expression
+ */
+export function unwrapExpression(expression: ts.Expression): ts.Expression {
+  let current = expression;
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isSatisfiesExpression(current) ||
+    ts.isNonNullExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
+/**
+ * Find all Convex function exports in a source file using the TypeScript AST
+ *
+ * Detects:
+ *   - export const x = query({...})
+ *   - export const x = q({...}) with import { query as q } from "..."
+ *   - export const x = server.query({...}) with import * as server from "..."
+ *   - const x = query({...}); export { x } / export { x as y }
+ *   - export default query({...})
+ *
+ * Re-exports from other modules (export { x } from "./other") are not followed.
+ */
+export function parseConvexFunctions(
+  sourceFile: ts.SourceFile,
+  wrappers: string[],
+): ParsedConvexFunction[] {
+  const wrapperSet = new Set(wrappers);
+  const importAliases = new Map<string, string>();
+  const namespaceImports = new Set<string>();
+
+  // Collect import aliases and namespace imports
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !statement.importClause) {
+      continue;
+    }
+    const bindings = statement.importClause.namedBindings;
+    if (!bindings) {
+      continue;
+    }
+    if (ts.isNamespaceImport(bindings)) {
+      namespaceImports.add(bindings.name.text);
+      continue;
+    }
+    for (const element of bindings.elements) {
+      const importedName = (element.propertyName ?? element.name).text;
+      if (wrapperSet.has(importedName)) {
+        importAliases.set(element.name.text, importedName);
+      }
+    }
+  }
+
+  const resolveWrapper = (
+    expression: ts.Expression | undefined,
+  ): { wrapper: string; call: ts.CallExpression } | null => {
+    if (!expression) {
+      return null;
+    }
+    const call = unwrapExpression(expression);
+    if (!ts.isCallExpression(call)) {
+      return null;
+    }
+
+    const callee = call.expression;
+    if (ts.isIdentifier(callee)) {
+      const wrapper =
+        importAliases.get(callee.text) ??
+        (wrapperSet.has(callee.text) ? callee.text : null);
+      return wrapper ? { wrapper, call } : null;
+    }
+    if (
+      ts.isPropertyAccessExpression(callee) &&
+      ts.isIdentifier(callee.expression) &&
+      namespaceImports.has(callee.expression.text) &&
+      wrapperSet.has(callee.name.text)
+    ) {
+      return { wrapper: callee.name.text, call };
+    }
+    return null;
+  };
+
+  // Collect top-level variable declarations, exported or not
+  const locals = new Map<
+    string,
+    { nameNode: ts.Identifier; statement: ts.Statement; init?: ts.Expression }
+  >();
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) {
+      continue;
+    }
+    for (const declaration of statement.declarationList.declarations) {
+      if (ts.isIdentifier(declaration.name)) {
+        locals.set(declaration.name.text, {
+          nameNode: declaration.name,
+          statement,
+          init: declaration.initializer,
+        });
+      }
+    }
+  }
+
+  const functions: ParsedConvexFunction[] = [];
+  const seen = new Set<string>();
+  const add = (
+    name: string,
+    nameNode: ts.Node,
+    statement: ts.Statement,
+    resolved: { wrapper: string; call: ts.CallExpression } | null,
+    localName: string | undefined,
+    exportNameNode: ts.Node = nameNode,
+  ) => {
+    if (!resolved || seen.has(name)) {
+      return;
+    }
+    seen.add(name);
+    functions.push({
+      name,
+      wrapper: resolved.wrapper,
+      nameStart: nameNode.getStart(sourceFile),
+      exportNameStart: exportNameNode.getStart(sourceFile),
+      localName,
+      declarationStart: statement.getStart(sourceFile),
+      declarationEnd: statement.getEnd(),
+      call: resolved.call,
+    });
+  };
+
+  for (const statement of sourceFile.statements) {
+    // export const x = wrapper({...})
+    if (ts.isVariableStatement(statement)) {
+      const isExported = statement.modifiers?.some(
+        (m) => m.kind === ts.SyntaxKind.ExportKeyword,
+      );
+      if (!isExported) {
+        continue;
+      }
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          add(
+            declaration.name.text,
+            declaration.name,
+            statement,
+            resolveWrapper(declaration.initializer),
+            declaration.name.text,
+          );
+        }
+      }
+      continue;
+    }
+
+    // const x = wrapper({...}); export { x } / export { x as y }
+    if (
+      ts.isExportDeclaration(statement) &&
+      !statement.moduleSpecifier &&
+      !statement.isTypeOnly &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      for (const specifier of statement.exportClause.elements) {
+        const localName = (specifier.propertyName ?? specifier.name).text;
+        const local = locals.get(localName);
+        if (!local) {
+          continue;
+        }
+        // Point at the declaration unless the export renames it
+        const nameNode = specifier.propertyName
+          ? specifier.name
+          : local.nameNode;
+        add(
+          specifier.name.text,
+          nameNode,
+          specifier.propertyName ? statement : local.statement,
+          resolveWrapper(local.init),
+          localName,
+          specifier.name,
+        );
+      }
+      continue;
+    }
+
+    // export default wrapper({...}) / export default x
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const defaultKeyword = statement
+        .getChildren(sourceFile)
+        .find((child) => child.kind === ts.SyntaxKind.DefaultKeyword);
+      let expression = unwrapExpression(statement.expression);
+      let localName: string | undefined;
+      if (ts.isIdentifier(expression) && locals.has(expression.text)) {
+        localName = expression.text;
+        expression = locals.get(localName)?.init ?? expression;
+      }
+      add(
+        "default",
+        defaultKeyword ?? statement,
+        statement,
+        resolveWrapper(expression),
+        localName,
+      );
+    }
+  }
+
+  return functions;
+}
+
+/**
+ * Get the names of all values exported by a source file
+ * Used to tell apart a missing export from one not detected as a Convex function
+ * Contains "*" when the file re-exports everything from another module.
+ */
+export function getExportedNames(sourceFile: ts.SourceFile): string[] {
+  const names: string[] = [];
+  const isExported = (statement: ts.Statement) =>
+    ts.canHaveModifiers(statement) &&
+    ts
+      .getModifiers(statement)
+      ?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement) && isExported(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          names.push(declaration.name.text);
+        }
+      }
+    } else if (
+      ts.isFunctionDeclaration(statement) &&
+      statement.name &&
+      isExported(statement)
+    ) {
+      names.push(statement.name.text);
+    } else if (
+      ts.isExportDeclaration(statement) &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      names.push(...statement.exportClause.elements.map((e) => e.name.text));
+    } else if (ts.isExportDeclaration(statement) && !statement.exportClause) {
+      // export * from "./other" - the exported names are unknown
+      names.push("*");
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      names.push("default");
+    }
+  }
+
+  return names;
+}
+
 /**
  * Determine the function type based on the wrapper name
  */
-function getFunctionType(wrapper: string): ConvexFunctionType {
+export function getFunctionType(wrapper: string): ConvexFunctionType {
   const lowerWrapper = wrapper.toLowerCase();
 
+  if (lowerWrapper.includes("httpaction")) {
+    return "httpAction";
+  }
   if (lowerWrapper.includes("internalquery")) {
     return "internalQuery";
   }
@@ -59,48 +345,67 @@ function getFunctionType(wrapper: string): ConvexFunctionType {
   return "unknown";
 }
 
+/**
+ * Convert parsed functions of a source file into Convex function definitions
+ */
+async function toDefinitions(
+  filePath: string,
+  sourceFile: ts.SourceFile,
+  parsed: ParsedConvexFunction[],
+): Promise<ConvexFunctionDefinition[]> {
+  const functions: ConvexFunctionDefinition[] = [];
+
+  for (const func of parsed) {
+    const type = getFunctionType(func.wrapper);
+    const apiPath = await computeApiPath(filePath, func.name, type);
+    if (!apiPath) {
+      continue;
+    }
+
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+      func.nameStart,
+    );
+    functions.push({
+      name: func.name,
+      type,
+      filePath,
+      line,
+      column: character,
+      apiPath,
+      wrapper: func.wrapper,
+    });
+  }
+
+  return functions;
+}
+
+/**
+ * Find all Convex function definitions in an already parsed source file
+ */
+export async function findConvexFunctionsInSource(
+  filePath: string,
+  sourceFile: ts.SourceFile,
+): Promise<ConvexFunctionDefinition[]> {
+  const parsed = parseConvexFunctions(sourceFile, getAllWrappers());
+  return toDefinitions(filePath, sourceFile, parsed);
+}
+
 /**
  * Find all Convex function definitions in a file
  */
 export async function findConvexFunctionsInFile(
   filePath: string,
 ): Promise<ConvexFunctionDefinition[]> {
-  const projectInfo = await getConvexProjectInfo();
+  const projectInfo = await getConvexProjectInfo(filePath);
   if (!projectInfo) {
     return [];
   }
 
   try {
     const document = await vscode.workspace.openTextDocument(filePath);
-    const content = document.getText();
-    const wrappers = getAllWrappers();
-    const pattern = buildFunctionPattern(wrappers);
-
-    const functions: ConvexFunctionDefinition[] = [];
-    let match: RegExpExecArray | null = pattern.exec(content);
-
-    while (match !== null) {
-      const functionName = match[1];
-      const wrapper = match[2];
-      const position = document.positionAt(match.index);
-
-      const apiPath = await computeApiPath(filePath, functionName);
-      if (apiPath) {
-        functions.push({
-          name: functionName,
-          type: getFunctionType(wrapper),
-          filePath,
-          line: position.line,
-          column: position.character,
-          apiPath,
-          wrapper,
-        });
-      }
+    const sourceFile = parseSourceFile(filePath, document.getText());
 
-      match = pattern.exec(content);
-    }
-
-    return functions;
+    return await findConvexFunctionsInSource(filePath, sourceFile);
   } catch (error) {
     console.error(`Error reading file ${filePath}:`, error);
     return [];
@@ -111,76 +416,58 @@ export async function findConvexFunctionsInFile(
  * Find the Convex function at a specific position in a document
  *
  * This function detects if the cursor is:
- * 1. On the export line itself (anywhere on the line), OR
- * 2. On the function name specifically
+ * 1. On the exported name or the head of the wrapper call
+ *    (e.g., anywhere in "export const list = query("), OR
+ * 2. On the export specifier or a use of the variable holding the function
+ *    that is not shadowed by an inner declaration, OR
+ * 3. With includeBody, anywhere between a function's export and the next one
  *
- * It also tries to find the function by looking at the word under the cursor
- * and matching it against known Convex function exports in the file.
+ * Other positions inside a handler body only match with includeBody, so
+ * locals and properties keep TypeScript's own references and rename.
  */
 export async function findConvexFunctionAtPosition(
   document: vscode.TextDocument,
   position: vscode.Position,
+  includeBody = false,
 ): Promise<ConvexFunctionDefinition | null> {
-  const projectInfo = await getConvexProjectInfo();
-  if (!projectInfo) {
+  // Check if we're in a convex file (skipping _generated files)
+  if (!(await isConvexBackendFile(document.uri.fsPath))) {
     return null;
   }
 
-  // Check if we're in a convex file
-  if (!document.uri.fsPath.startsWith(projectInfo.convexDir)) {
-    return null;
-  }
-
-  // Skip _generated files
-  if (document.uri.fsPath.includes("_generated")) {
-    return null;
-  }
-
-  const content = document.getText();
-  const wrappers = getAllWrappers();
-  const pattern = buildFunctionPattern(wrappers);
-
-  // First, get the word under the cursor - this might be the function name
-  const wordUnderCursor = getWordAtPosition(document, position);
+  const sourceFile = parseSourceFile(document.uri.fsPath, document.getText());
+  const parsed = parseConvexFunctions(sourceFile, getAllWrappers());
 
   // Collect all Convex functions in the file
-  const functions: ConvexFunctionDefinition[] = [];
-  let match: RegExpExecArray | null = pattern.exec(content);
-
-  while (match !== null) {
-    const functionName = match[1];
-    const wrapper = match[2];
-    const startPos = document.positionAt(match.index);
+  const functions = await toDefinitions(
+    document.uri.fsPath,
+    sourceFile,
+    parsed,
+  );
 
-    const apiPath = await computeApiPath(document.uri.fsPath, functionName);
-    if (apiPath) {
-      functions.push({
-        name: functionName,
-        type: getFunctionType(wrapper),
-        filePath: document.uri.fsPath,
-        line: startPos.line,
-        column: startPos.character,
-        apiPath,
-        wrapper,
-      });
+  // Strategy 1: Check if cursor is on the name or wrapper call head of any function
+  const offset = document.offsetAt(position);
+  for (const func of parsed) {
+    if (isOnFunctionHead(func, offset)) {
+      const match = functions.find((f) => f.name === func.name);
+      if (match) {
+        return match;
+      }
     }
-
-    match = pattern.exec(content);
   }
 
-  // Strategy 1: Check if cursor is on the export line of any function
-  for (const func of functions) {
-    if (position.line === func.line) {
-      return func;
+  // Strategy 2: Check if cursor is on an identifier referring to a function
+  for (const func of parsed) {
+    if (isOnFunctionReference(sourceFile, func, offset)) {
+      const match = functions.find((f) => f.name === func.name);
+      if (match) {
+        return match;
+      }
     }
   }
 
-  // Strategy 2: Check if the word under cursor matches a function name
-  if (wordUnderCursor) {
-    const matchingFunc = functions.find((f) => f.name === wordUnderCursor);
-    if (matchingFunc) {
-      return matchingFunc;
-    }
+  if (!includeBody) {
+    return null;
   }
 
   // Strategy 3: Check if cursor is within a function body (between this export and the next)
@@ -202,6 +489,206 @@ export async function findConvexFunctionAtPosition(
   return null;
 }
 
+/**
+ * Check if an offset is on the exported name of a function or on the head of
+ * its wrapper call, from the start of the declaration up to the opening parenthesis
+ */
+function isOnFunctionHead(func: ParsedConvexFunction, offset: number): boolean {
+  if (offset >= func.nameStart && offset <= func.nameStart + func.name.length) {
+    return true;
+  }
+  const callHeadEnd = func.call.arguments.pos;
+  if (offset >= func.call.getStart() && offset <= callHeadEnd) {
+    return true;
+  }
+  // export const x = query( - only when the call belongs to this statement
+  return (
+    func.declarationStart <= func.call.pos &&
+    func.declarationEnd >= func.call.end &&
+    offset >= func.declarationStart &&
+    offset <= callHeadEnd
+  );
+}
+
+/**
+ * Check if an offset is on the export specifier of a function or on an
+ * identifier that resolves to the module-level variable holding it
+ */
+export function isOnFunctionReference(
+  sourceFile: ts.SourceFile,
+  func: ParsedConvexFunction,
+  offset: number,
+): boolean {
+  if (
+    offset >= func.exportNameStart &&
+    offset <= func.exportNameStart + func.name.length
+  ) {
+    return true;
+  }
+  if (!func.localName) {
+    return false;
+  }
+
+  const identifier = findIdentifierAtOffset(sourceFile, offset);
+  return (
+    identifier !== null &&
+    identifier.text === func.localName &&
+    isVariableReference(identifier) &&
+    !isShadowed(identifier)
+  );
+}
+
+/**
+ * Find the identifier that contains an offset, including its end
+ */
+function findIdentifierAtOffset(
+  sourceFile: ts.SourceFile,
+  offset: number,
+): ts.Identifier | null {
+  const visit = (node: ts.Node): ts.Identifier | null => {
+    if (offset < node.getStart(sourceFile) || offset > node.getEnd()) {
+      return null;
+    }
+    if (ts.isIdentifier(node)) {
+      return node;
+    }
+    return ts.forEachChild(node, visit) ?? null;
+  };
+  return visit(sourceFile);
+}
+
+/**
+ * Check if an identifier names a variable rather than a property, label or
+ * the imported side of an import or export specifier
+ */
+function isVariableReference(identifier: ts.Identifier): boolean {
+  const parent = identifier.parent;
+  if (ts.isPropertyAccessExpression(parent)) {
+    return parent.expression === identifier;
+  }
+  if (ts.isQualifiedName(parent)) {
+    return parent.left === identifier;
+  }
+  if (ts.isExportSpecifier(parent)) {
+    // export { x as y } - only x refers to the local variable
+    return !parent.propertyName || parent.propertyName === identifier;
+  }
+  if (ts.isBindingElement(parent)) {
+    return parent.propertyName !== identifier;
+  }
+  if (
+    ts.isPropertyAssignment(parent) ||
+    ts.isPropertyDeclaration(parent) ||
+    ts.isPropertySignature(parent) ||
+    ts.isMethodDeclaration(parent) ||
+    ts.isMethodSignature(parent) ||
+    ts.isGetAccessor(parent) ||
+    ts.isSetAccessor(parent) ||
+    ts.isEnumMember(parent) ||
+    ts.isJsxAttribute(parent)
+  ) {
+    return parent.name !== identifier;
+  }
+  return !(
+    ts.isImportSpecifier(parent) ||
+    ts.isImportClause(parent) ||
+    ts.isNamespaceImport(parent) ||
+    ts.isLabeledStatement(parent) ||
+    ts.isBreakOrContinueStatement(parent)
+  );
+}
+
+/**
+ * Check if an inner scope declares a variable with the identifier's name,
+ * so that it does not refer to the module-level variable
+ */
+function isShadowed(identifier: ts.Identifier): boolean {
+  const name = identifier.text;
+  for (
+    let scope = identifier.parent;
+    !ts.isSourceFile(scope);
+    scope = scope.parent
+  ) {
+    if (scopeDeclares(scope, name)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check if a scope node declares a variable, parameter, function or class name
+ */
+function scopeDeclares(scope: ts.Node, name: string): boolean {
+  if (ts.isFunctionLike(scope)) {
+    const ownName = ts.isFunctionExpression(scope) && scope.name?.text === name;
+    return (
+      ownName ||
+      scope.parameters.some((parameter) =>
+        bindingDeclares(parameter.name, name),
+      )
+    );
+  }
+  if (
+    ts.isBlock(scope) ||
+    ts.isModuleBlock(scope) ||
+    ts.isCaseOrDefaultClause(scope)
+  ) {
+    return scope.statements.some((statement) =>
+      statementDeclares(statement, name),
+    );
+  }
+  if (
+    ts.isForStatement(scope) ||
+    ts.isForInStatement(scope) ||
+    ts.isForOfStatement(scope)
+  ) {
+    const initializer = scope.initializer;
+    return (
+      initializer !== undefined &&
+      ts.isVariableDeclarationList(initializer) &&
+      initializer.declarations.some((d) => bindingDeclares(d.name, name))
+    );
+  }
+  if (ts.isCatchClause(scope)) {
+    const declaration = scope.variableDeclaration;
+    return !!declaration && bindingDeclares(declaration.name, name);
+  }
+  return false;
+}
+
+/**
+ * Check if a statement declares a name in its enclosing block
+ */
+function statementDeclares(statement: ts.Statement, name: string): boolean {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.some((d) =>
+      bindingDeclares(d.name, name),
+    );
+  }
+  if (
+    ts.isFunctionDeclaration(statement) ||
+    ts.isClassDeclaration(statement) ||
+    ts.isEnumDeclaration(statement)
+  ) {
+    return statement.name?.text === name;
+  }
+  return false;
+}
+
+/**
+ * Check if a binding name or destructuring pattern declares a name
+ */
+function bindingDeclares(binding: ts.BindingName, name: string): boolean {
+  if (ts.isIdentifier(binding)) {
+    return binding.text === name;
+  }
+  return binding.elements.some(
+    (element) =>
+      !ts.isOmittedExpression(element) && bindingDeclares(element.name, name),
+  );
+}
+
 /**
  * Get the word at a position that might be a function name
  */
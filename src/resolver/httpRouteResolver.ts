@@ -0,0 +1,277 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as ts from "typescript";
+import { getAllWrappers } from "../config";
+import type { ConvexHttpRoute, ConvexHttpRouteHandler } from "../types";
+import { findModuleFile } from "./pathResolver";
+import {
+  parseConvexFunctions,
+  parseSourceFile,
+  unwrapExpression,
+} from "./functionDetector";
+
+const ROUTER_FILES = ["http.ts", "http.js"];
+
+/**
+ * Find the HTTP router file of a convex directory
+ */
+export function findRouterFile(convexDir: string): string | undefined {
+  return ROUTER_FILES.map((file) => path.join(convexDir, file)).find((file) =>
+    fs.existsSync(file),
+  );
+}
+
+/**
+ * Get the routes registered in the HTTP router of a convex directory
+ */
+export function getHttpRoutes(convexDir: string): ConvexHttpRoute[] {
+  const routerPath = findRouterFile(convexDir);
+  if (!routerPath) {
+    return [];
+  }
+
+  try {
+    return parseHttpRoutes(
+      parseSourceFile(routerPath, fs.readFileSync(routerPath, "utf8")),
+      convexDir,
+    );
+  } catch (error) {
+    console.error(`Error parsing HTTP router ${routerPath}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Find the http.route({...}) calls of a router file
+ *
+ * Detects:
+ *   - http.route({ path: "/webhook", method: "POST", handler: webhook })
+ *   - http.route({ pathPrefix: "/files/", method: "GET", handler: httpAction(...) })
+ *
+ * Handlers declared in the router file or imported from a relative module
+ * are resolved to their definition.
+ */
+export function parseHttpRoutes(
+  sourceFile: ts.SourceFile,
+  convexDir: string,
+): ConvexHttpRoute[] {
+  const routes: ConvexHttpRoute[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === "route" &&
+      node.arguments.length > 0 &&
+      ts.isObjectLiteralExpression(node.arguments[0])
+    ) {
+      const options = node.arguments[0];
+      const exactPath = getStringProperty(options, "path");
+      const pathPrefix = getStringProperty(options, "pathPrefix");
+      const method = getStringProperty(options, "method");
+      const routePath = exactPath ?? pathPrefix;
+
+      if (routePath !== undefined && method) {
+        const handler = getProperty(options, "handler");
+        const position = sourceFile.getLineAndCharacterOfPosition(
+          node.getStart(sourceFile),
+        );
+        routes.push({
+          method: method.toUpperCase(),
+          path: routePath,
+          isPrefix: exactPath === undefined,
+          filePath: sourceFile.fileName,
+          line: position.line,
+          column: position.character,
+          handler: handler
+            ? resolveHandler(handler, sourceFile, convexDir)
+            : undefined,
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return routes;
+}
+
+/**
+ * Find the routes matching a URL path
+ * Exact routes win over prefix routes; the longest prefix wins among prefixes.
+ * A partial path (cut off at an interpolation) can only match prefix routes.
+ */
+export function matchHttpRoutes(
+  routes: ConvexHttpRoute[],
+  urlPath: string,
+  isPartial = false,
+): ConvexHttpRoute[] {
+  const exact = routes.filter(
+    (route) => !isPartial && !route.isPrefix && route.path === urlPath,
+  );
+  if (exact.length > 0) {
+    return exact;
+  }
+
+  const prefixes = routes.filter(
+    (route) => route.isPrefix && urlPath.startsWith(route.path),
+  );
+  const longest = Math.max(0, ...prefixes.map((route) => route.path.length));
+  return prefixes.filter((route) => route.path.length === longest);
+}
+
+/**
+ * Resolve the handler of a route to where it is defined
+ */
+function resolveHandler(
+  handler: ts.Expression,
+  sourceFile: ts.SourceFile,
+  convexDir: string,
+): ConvexHttpRouteHandler | undefined {
+  const expression = unwrapExpression(handler);
+
+  // Inline handler: handler: httpAction(async (ctx, request) => {...})
+  if (!ts.isIdentifier(expression)) {
+    return toHandler(sourceFile, expression.getStart(sourceFile));
+  }
+
+  const name = expression.text;
+
+  // Handler declared in the router file (exported or not)
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) {
+      continue;
+    }
+    const declaration = statement.declarationList.declarations.find(
+      (d) => ts.isIdentifier(d.name) && d.name.text === name,
+    );
+    if (declaration) {
+      return toHandler(sourceFile, declaration.name.getStart(sourceFile), name);
+    }
+  }
+
+  // Handler imported from another module: import { webhook } from "./webhooks"
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      !statement.moduleSpecifier.text.startsWith(".") ||
+      !statement.importClause?.namedBindings ||
+      !ts.isNamedImports(statement.importClause.namedBindings)
+    ) {
+      continue;
+    }
+
+    const element = statement.importClause.namedBindings.elements.find(
+      (e) => e.name.text === name,
+    );
+    if (!element) {
+      continue;
+    }
+
+    const modulePath = path
+      .relative(
+        convexDir,
+        path.resolve(
+          path.dirname(sourceFile.fileName),
+          statement.moduleSpecifier.text,
+        ),
+      )
+      .replace(/\.js$/, "");
+    const moduleFile = findModuleFile(convexDir, modulePath);
+    if (!moduleFile) {
+      return undefined;
+    }
+
+    const importedName = (element.propertyName ?? element.name).text;
+    const moduleSource = parseSourceFile(
+      moduleFile,
+      fs.readFileSync(moduleFile, "utf8"),
+    );
+    const func = parseConvexFunctions(moduleSource, getAllWrappers()).find(
+      (f) => f.name === importedName,
+    );
+    return toHandler(moduleSource, func?.nameStart ?? 0, importedName);
+  }
+
+  return undefined;
+}
+
+/**
+ * Build a handler location from an offset in a source file
+ */
+function toHandler(
+  sourceFile: ts.SourceFile,
+  offset: number,
+  name?: string,
+): ConvexHttpRouteHandler {
+  const position = sourceFile.getLineAndCharacterOfPosition(offset);
+  return {
+    name,
+    filePath: sourceFile.fileName,
+    line: position.line,
+    column: position.character,
+  };
+}
+
+/**
+ * Get the value of a property in an object literal
+ */
+function getProperty(
+  object: ts.ObjectLiteralExpression,
+  name: string,
+): ts.Expression | undefined {
+  for (const property of object.properties) {
+    if (ts.isPropertyAssignment(property) && property.name.getText() === name) {
+      return property.initializer;
+    }
+    if (
+      ts.isShorthandPropertyAssignment(property) &&
+      property.name.text === name
+    ) {
+      return property.name;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the value of a string property in an object literal
+ */
+function getStringProperty(
+  object: ts.ObjectLiteralExpression,
+  name: string,
+): string | undefined {
+  const value = getProperty(object, name);
+  return value && ts.isStringLiteralLike(value) ? value.text : undefined;
+}
+
+/**
+ * Extract the URL path a string or template literal points to, if any
+ *
+ *   `${siteUrl}/api/webhook`          -> "/api/webhook"
+ *   "https://x.convex.site/api/hook"  -> "/api/hook"
+ *   "/api/webhook?token=1"            -> "/api/webhook"
+ *   `${siteUrl}/files/${id}`          -> "/files/" (partial, for prefix routes)
+ */
+export function getUrlPath(
+  literal: ts.StringLiteralLike | ts.TemplateExpression,
+): { path: string; isPartial: boolean } | undefined {
+  // Interpolations are marked with \0 so they can be told apart from text
+  let text = ts.isTemplateExpression(literal)
+    ? literal.head.text +
+      literal.templateSpans.map((span) => `\0${span.literal.text}`).join("")
+    : literal.text;
+
+  // Drop the base URL: an interpolated origin or a literal one
+  text = text.replace(/^\0/, "").replace(/^https?:\/\/[^/\0]+/, "");
+  text = text.split(/[?#]/)[0];
+  if (!text.startsWith("/") || /\s/.test(text)) {
+    return undefined;
+  }
+
+  const interpolation = text.indexOf("\0");
+  return interpolation === -1
+    ? { path: text, isPartial: false }
+    : { path: text.slice(0, interpolation), isPartial: true };
+}
@@ -2,70 +2,318 @@ import * as path from "path";
 import * as fs from "fs";
 import {
   getConfig,
-  detectConvexProject,
+  detectConvexProjects,
   toApiPath,
   fromApiPath,
 } from "../config";
-import type { ConvexProjectInfo } from "../types";
+import type { ConvexFunctionType, ConvexProjectInfo } from "../types";
 
-// Cache the project info to avoid repeated file system scans
-let cachedProjectInfo: ConvexProjectInfo | null = null;
+// Cache the detected projects to avoid repeated file system scans
+let cachedProjects: ConvexProjectInfo[] | null = null;
 let cacheTimestamp = 0;
 const CACHE_TTL_MS = 30000; // 30 seconds
 
+// Project of each frontend file, keyed by file path (invalidated by mtime)
+const fileProjectCache = new Map<
+  string,
+  { mtimeMs: number; convexDir: string | null }
+>();
+
 /**
- * Get the Convex project info, using cache if available
+ * File extensions Convex bundles as function modules
  */
-export async function getConvexProjectInfo(): Promise<ConvexProjectInfo | null> {
+export const MODULE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+
+/**
+ * Matches imports of a Convex project's generated api module
+ * e.g., from "../convex/_generated/api", require("@/convex/_generated/api.js")
+ */
+const GENERATED_API_IMPORT_PATTERN =
+  /(?:from|import|require)\s*\(?\s*["']([^"']*)\/_generated\/api(?:\.js)?["']/g;
+
+/**
+ * Get all Convex projects in the workspace, using cache if available
+ */
+export async function getConvexProjects(): Promise<ConvexProjectInfo[]> {
   const now = Date.now();
-  if (cachedProjectInfo && now - cacheTimestamp < CACHE_TTL_MS) {
-    return cachedProjectInfo;
+  if (cachedProjects && now - cacheTimestamp < CACHE_TTL_MS) {
+    return cachedProjects;
   }
 
-  cachedProjectInfo = await detectConvexProject();
+  cachedProjects = await detectConvexProjects();
   cacheTimestamp = now;
-  return cachedProjectInfo;
+  return cachedProjects;
+}
+
+/**
+ * Get the Convex project a file belongs to, using cache if available
+ *
+ * Backend files belong to the project whose convex directory contains them.
+ * Frontend files belong to the project they import _generated/api from, and
+ * otherwise to the closest project. Without a file, the first detected
+ * project is returned.
+ *
+ * Pass the content for unsaved documents; otherwise the file is read from disk.
+ */
+export async function getConvexProjectInfo(
+  filePath?: string,
+  content?: string,
+): Promise<ConvexProjectInfo | null> {
+  const projects = await getConvexProjects();
+  if (projects.length <= 1 || !filePath) {
+    return projects[0] ?? null;
+  }
+
+  // Backend file: the innermost convex directory containing it
+  const owner = projects
+    .filter((p) => isInsideDirectory(filePath, p.convexDir))
+    .sort((a, b) => b.convexDir.length - a.convexDir.length)[0];
+  if (owner) {
+    return owner;
+  }
+
+  // Frontend code never imports the generated api of a component
+  const apps = projects.filter((p) => !p.component);
+  const convexDir = getImportedConvexDir(filePath, apps, content);
+  return (
+    apps.find((p) => p.convexDir === convexDir) ??
+    findClosestProject(filePath, apps)
+  );
+}
+
+/**
+ * Find a component installed by a project (components.<name>.*)
+ */
+export async function getComponentProject(
+  projectInfo: ConvexProjectInfo,
+  componentName: string,
+): Promise<ConvexProjectInfo | null> {
+  const projects = await getConvexProjects();
+  return (
+    projects.find(
+      (p) =>
+        p.component?.parentConvexDir === projectInfo.convexDir &&
+        p.component.name === componentName,
+    ) ?? null
+  );
+}
+
+/**
+ * Get the components installed by a project
+ */
+export async function getInstalledComponents(
+  projectInfo: ConvexProjectInfo,
+): Promise<ConvexProjectInfo[]> {
+  const projects = await getConvexProjects();
+  return projects.filter(
+    (p) => p.component?.parentConvexDir === projectInfo.convexDir,
+  );
+}
+
+/**
+ * Get how the parent project references a public function of a component
+ * e.g., "api.lib.rateLimit" in component "rateLimiter" -> "components.rateLimiter.lib.rateLimit"
+ */
+export async function getComponentReference(
+  apiPath: string,
+  projectInfo: ConvexProjectInfo,
+): Promise<{ apiPath: string; projectInfo: ConvexProjectInfo } | null> {
+  const { component } = projectInfo;
+  if (!component || !apiPath.startsWith("api.")) {
+    return null;
+  }
+
+  const projects = await getConvexProjects();
+  const parent = projects.find(
+    (p) => p.convexDir === component.parentConvexDir,
+  );
+  if (!parent) {
+    return null;
+  }
+
+  return {
+    apiPath: `components.${component.name}.${apiPath.slice("api.".length)}`,
+    projectInfo: parent,
+  };
+}
+
+/**
+ * Find the convex directory a frontend file imports _generated/api from
+ */
+function getImportedConvexDir(
+  filePath: string,
+  projects: ConvexProjectInfo[],
+  content?: string,
+): string | null {
+  let mtimeMs = 0;
+  if (content === undefined) {
+    try {
+      mtimeMs = fs.statSync(filePath).mtimeMs;
+      const cached = fileProjectCache.get(filePath);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.convexDir;
+      }
+      content = fs.readFileSync(filePath, "utf8");
+    } catch {
+      return null;
+    }
+  }
+
+  let convexDir: string | null = null;
+  for (const match of content.matchAll(GENERATED_API_IMPORT_PATTERN)) {
+    const specifier = match[1];
+    if (specifier.startsWith(".")) {
+      // Relative import: resolve it against the file
+      const importedDir = path.resolve(path.dirname(filePath), specifier);
+      convexDir =
+        projects.find((p) => path.normalize(p.convexDir) === importedDir)
+          ?.convexDir ?? null;
+    } else {
+      // Path alias or package import (e.g., "@/convex", "@acme/backend/convex"):
+      // prefer the project whose directory ends with the most matching segments
+      convexDir = findProjectBySuffix(specifier, filePath, projects);
+    }
+    if (convexDir) {
+      break;
+    }
+  }
+
+  if (mtimeMs) {
+    fileProjectCache.set(filePath, { mtimeMs, convexDir });
+  }
+  return convexDir;
+}
+
+/**
+ * Find the project whose convex directory best matches a non-relative import
+ */
+function findProjectBySuffix(
+  specifier: string,
+  filePath: string,
+  projects: ConvexProjectInfo[],
+): string | null {
+  const segments = specifier.split("/").filter((s) => s && !s.startsWith("@"));
+  let best: ConvexProjectInfo[] = [];
+  let bestCount = 0;
+
+  for (const project of projects) {
+    const dirSegments = project.convexDir.split(path.sep);
+    let count = 0;
+    while (
+      count < segments.length &&
+      count < dirSegments.length &&
+      segments[segments.length - 1 - count] ===
+        dirSegments[dirSegments.length - 1 - count]
+    ) {
+      count++;
+    }
+    if (count > bestCount) {
+      best = [project];
+      bestCount = count;
+    } else if (count === bestCount && count > 0) {
+      best.push(project);
+    }
+  }
+
+  if (best.length === 0) {
+    return null;
+  }
+  return findClosestProject(filePath, best)?.convexDir ?? null;
+}
+
+/**
+ * Find the project that shares the longest directory prefix with a file
+ */
+function findClosestProject(
+  filePath: string,
+  projects: ConvexProjectInfo[],
+): ConvexProjectInfo | null {
+  const fileSegments = filePath.split(path.sep);
+  let closest: ConvexProjectInfo | null = null;
+  let closestLength = -1;
+
+  for (const project of projects) {
+    const projectSegments = path.dirname(project.convexDir).split(path.sep);
+    let length = 0;
+    while (
+      length < projectSegments.length &&
+      projectSegments[length] === fileSegments[length]
+    ) {
+      length++;
+    }
+    if (length > closestLength) {
+      closest = project;
+      closestLength = length;
+    }
+  }
+
+  return closest;
 }
 
 /**
  * Clear the cached project info
  */
 export function clearProjectCache(): void {
-  cachedProjectInfo = null;
+  cachedProjects = null;
   cacheTimestamp = 0;
+  fileProjectCache.clear();
 }
 
 /**
  * Given a backend file path and function name, compute the full API path
  * e.g., "/path/to/convex/domains/contacts.ts" + "createContact" -> "api.domains.contacts.createContact"
+ *
+ * Internal functions are exposed through the "internal" object instead of "api"
+ * e.g., an internalMutation -> "internal.domains.contacts.createContact"
  */
 export async function computeApiPath(
   filePath: string,
   functionName: string,
+  functionType?: ConvexFunctionType,
 ): Promise<string | null> {
-  const projectInfo = await getConvexProjectInfo();
+  const projectInfo = await getConvexProjectInfo(filePath);
   if (!projectInfo) {
     return null;
   }
 
   // Check if the file is inside the convex directory
-  if (!filePath.startsWith(projectInfo.convexDir)) {
+  if (!isInsideDirectory(filePath, projectInfo.convexDir)) {
     return null;
   }
 
   const apiPath = toApiPath(filePath, functionName, projectInfo.convexDir);
-  return `api.${apiPath}`;
+  const prefix =
+    functionType && isInternalFunctionType(functionType) ? "internal" : "api";
+  return `${prefix}.${apiPath}`;
+}
+
+/**
+ * Check if a function type is only reachable through the "internal" object
+ */
+export function isInternalFunctionType(
+  functionType: ConvexFunctionType,
+): boolean {
+  return (
+    functionType === "internalQuery" ||
+    functionType === "internalMutation" ||
+    functionType === "internalAction"
+  );
 }
 
 /**
  * Given an API path, resolve it to a file path and function name
  * e.g., "api.domains.contacts.createContact" -> { filePath: "/path/to/convex/domains/contacts.ts", functionName: "createContact" }
+ *
+ * The path is resolved in the project of the file containing the reference.
  */
-export async function resolveApiPath(apiPath: string): Promise<{
+export async function resolveApiPath(
+  apiPath: string,
+  fromFile: string,
+): Promise<{
   filePath: string;
   functionName: string;
 } | null> {
-  const projectInfo = await getConvexProjectInfo();
+  let projectInfo = await getConvexProjectInfo(fromFile);
   if (!projectInfo) {
     return null;
   }
@@ -75,62 +323,212 @@ export async function resolveApiPath(apiPath: string): Promise<{
     return null;
   }
 
-  // Try different extensions
-  const extensions = [".ts", ".tsx", ".js", ".jsx"];
-  for (const ext of extensions) {
-    const fullPath = path.join(projectInfo.convexDir, parsed.modulePath + ext);
-    if (fs.existsSync(fullPath)) {
-      return {
-        filePath: fullPath,
-        functionName: parsed.functionName,
-      };
+  // components.<name>.* resolves inside the installed component
+  if (parsed.componentName) {
+    projectInfo = await getComponentProject(projectInfo, parsed.componentName);
+    if (!projectInfo) {
+      return null;
     }
   }
 
-  return null;
+  const filePath = findModuleFile(projectInfo.convexDir, parsed.modulePath);
+  if (!filePath) {
+    return null;
+  }
+
+  return {
+    filePath,
+    functionName: parsed.functionName,
+  };
 }
 
 /**
- * Check if a file is inside the Convex backend directory
+ * Given an API path that points to a module, resolve it to the module file
+ * e.g., "api.domains.contacts" -> "/path/to/convex/domains/contacts.ts"
+ * e.g., "components.rateLimiter" -> "/path/to/rate-limiter/convex.config.ts"
  */
-export async function isConvexBackendFile(filePath: string): Promise<boolean> {
-  const projectInfo = await getConvexProjectInfo();
+export async function resolveApiModulePath(
+  apiPath: string,
+  fromFile: string,
+): Promise<string | null> {
+  let projectInfo = await getConvexProjectInfo(fromFile);
   if (!projectInfo) {
-    return false;
+    return null;
   }
 
+  // components.<name>.* resolves inside the installed component,
+  // and components.<name> itself to the component's convex.config
+  const componentMatch = /^components\.(\w+)(\.|$)/.exec(apiPath);
+  if (componentMatch) {
+    projectInfo = await getComponentProject(projectInfo, componentMatch[1]);
+    if (!projectInfo) {
+      return null;
+    }
+  }
+
+  const modulePath = (
+    componentMatch
+      ? apiPath.slice(componentMatch[0].length)
+      : apiPath.replace(/^(api|internal)(\.|$)/, "")
+  )
+    .split(".")
+    .join("/");
+  if (!modulePath) {
+    return (componentMatch && projectInfo.configPath) || null;
+  }
+
+  return findModuleFile(projectInfo.convexDir, modulePath) ?? null;
+}
+
+/**
+ * Find the source file for a module path inside the convex directory
+ * e.g., "domains/contacts" -> "/path/to/convex/domains/contacts.ts"
+ */
+export function findModuleFile(
+  convexDir: string,
+  modulePath: string,
+): string | undefined {
+  for (const ext of MODULE_EXTENSIONS) {
+    const fullPath = path.join(convexDir, modulePath + ext);
+    if (fs.existsSync(fullPath)) {
+      return fullPath;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extensions tried for relative imports, which may omit them or use ".js"
+ */
+const IMPORT_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".js",
+  ".jsx",
+  "/index.ts",
+  "/index.tsx",
+  "/index.js",
+];
+
+/**
+ * Find the source file a relative import points to
+ * e.g., "../lib/convex" from "/app/src/pages/index.tsx" -> "/app/src/lib/convex.ts"
+ */
+export function resolveRelativeImport(
+  fromFile: string,
+  specifier: string,
+): string | undefined {
+  const basePath = path
+    .resolve(path.dirname(fromFile), specifier)
+    .replace(/\.js$/, "");
+  return IMPORT_EXTENSIONS.map((ext) => basePath + ext).find((filePath) =>
+    fs.existsSync(filePath),
+  );
+}
+
+/**
+ * Check if a file is inside the Convex backend directory of any project
+ */
+export async function isConvexBackendFile(filePath: string): Promise<boolean> {
+  const projects = await getConvexProjects();
+
   // Normalize paths for comparison
   const normalizedFilePath = path.normalize(filePath);
-  const normalizedConvexDir = path.normalize(projectInfo.convexDir);
 
   // Must be inside convex dir but not in _generated
-  return (
-    normalizedFilePath.startsWith(normalizedConvexDir) &&
-    !normalizedFilePath.includes("_generated")
+  return projects.some(
+    (projectInfo) =>
+      isInsideDirectory(
+        normalizedFilePath,
+        path.normalize(projectInfo.convexDir),
+      ) && !normalizedFilePath.includes("_generated"),
   );
 }
 
 /**
- * Get search paths for finding frontend usages
+ * Get search paths for finding frontend usages of a project
  * Returns paths to search in, respecting user configuration
+ *
+ * When includeConvexDir is set (e.g., for internal functions, which are only
+ * callable from server-side code), the convex directory is searched as well.
  */
-export async function getSearchPaths(): Promise<string[]> {
+export function getSearchPaths(
+  projectInfo: ConvexProjectInfo,
+  includeConvexDir = false,
+): string[] {
   const config = getConfig();
-  const projectInfo = await getConvexProjectInfo();
-
-  if (!projectInfo) {
-    return [];
-  }
 
   // If user specified frontend paths, use those
-  if (config.frontendPaths.length > 0) {
-    return config.frontendPaths.map((p) =>
-      path.isAbsolute(p) ? p : path.join(projectInfo.workspaceRoot, p),
-    );
+  // Otherwise, search the entire workspace
+  const searchPaths =
+    config.frontendPaths.length > 0
+      ? config.frontendPaths.map((p) =>
+          path.isAbsolute(p) ? p : path.join(projectInfo.workspaceRoot, p),
+        )
+      : [projectInfo.workspaceRoot];
+
+  const convexDirCovered = searchPaths.some((p) =>
+    isInsideDirectory(projectInfo.convexDir, p),
+  );
+  if (includeConvexDir && !convexDirCovered) {
+    searchPaths.push(projectInfo.convexDir);
   }
 
-  // Otherwise, search the entire workspace
-  return [projectInfo.workspaceRoot];
+  return searchPaths;
+}
+
+/**
+ * Check if a path is inside (or equal to) a directory
+ */
+export function isInsideDirectory(filePath: string, dir: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Check if a file matches one of the configured exclude patterns
+ */
+export function isExcludedPath(filePath: string): boolean {
+  const config = getConfig();
+  const normalized = filePath.split(path.sep).join("/");
+  return config.excludePatterns.some((pattern) =>
+    globToRegExp(pattern).test(normalized),
+  );
+}
+
+/**
+ * Convert a simple glob pattern (*, **, ?, {a,b}) to a regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" matches any number of directories, including none
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      source += "(?:";
+    } else if (char === "}") {
+      source += ")";
+    } else if (char === ",") {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  // Patterns without a leading "**/" are matched against any path suffix
+  return new RegExp(`(?:^|/)${source}$`);
 }
 
 /**
@@ -0,0 +1,673 @@
+import * as fs from "fs";
+import * as ts from "typescript";
+import type { ConvexFunctionUsage, UsageKind } from "../types";
+import { parseSourceFile, unwrapExpression } from "./functionDetector";
+import { resolveRelativeImport } from "./pathResolver";
+
+/**
+ * Hooks and functions that take a Convex function reference as argument, by usage kind
+ */
+const CALL_KINDS: Record<string, UsageKind> = {
+  useQuery: "reactive",
+  useMutation: "reactive",
+  useAction: "reactive",
+  usePaginatedQuery: "reactive",
+  useConvexQuery: "reactive",
+  useConvexMutation: "reactive",
+  useConvexAction: "reactive",
+  convexQuery: "reactive",
+  convexAction: "reactive",
+  fetchQuery: "serverRendered",
+  fetchMutation: "serverRendered",
+  fetchAction: "serverRendered",
+  preloadQuery: "serverRendered",
+  "ctx.runQuery": "server",
+  "ctx.runMutation": "server",
+  "ctx.runAction": "server",
+  "ctx.scheduler.runAfter": "scheduler",
+  "ctx.scheduler.runAt": "scheduler",
+};
+
+/**
+ * Methods of cronJobs() that schedule a Convex function
+ * e.g., crons.daily("send digest", { hourUTC: 9, minuteUTC: 0 }, internal.emails.sendDigest)
+ */
+export const CRON_METHODS = [
+  "interval",
+  "hourly",
+  "daily",
+  "weekly",
+  "monthly",
+  "cron",
+];
+
+/**
+ * Methods of a ConvexHttpClient that call a Convex function
+ */
+const HTTP_CLIENT_METHODS = ["query", "mutation", "action"];
+
+/**
+ * Names of imported clients whose module cannot be read (path aliases, packages)
+ * e.g., import { client } from "@/lib/convex", import { convexClient } from "~/convex"
+ */
+const HTTP_CLIENT_NAME_PATTERN = /client$/i;
+
+/**
+ * Names exported as a ConvexHttpClient by each module, invalidated by mtime
+ */
+const httpClientExportsCache = new Map<
+  string,
+  { mtimeMs: number; names: Set<string> }
+>();
+
+/**
+ * Methods of the local store passed to withOptimisticUpdate
+ */
+const LOCAL_STORE_METHODS = ["getQuery", "setQuery", "getAllQueries"];
+
+/**
+ * Test files (e.g., contacts.test.ts, __tests__/contacts.ts)
+ */
+const TEST_FILE_PATTERN = /\.(test|spec)\.[jt]sx?$|[\\/]__tests__[\\/]/;
+
+/**
+ * Classify a usage from the kind of call it is passed to
+ * Every usage in a test file is a "test" usage; other uncalled references are "reference".
+ */
+export function classifyUsage(
+  filePath: string,
+  callKind: UsageKind | undefined,
+): UsageKind {
+  if (TEST_FILE_PATTERN.test(filePath)) {
+    return "test";
+  }
+  return callKind ?? "reference";
+}
+
+/**
+ * Get the usage kind of a hook or function detected by HOOK_PATTERN
+ */
+export function getCallKind(hookUsed: string): UsageKind | undefined {
+  return CALL_KINDS[hookUsed];
+}
+
+/**
+ * Regex to detect which hook is used on a line of code
+ * e.g., "const create = useMutation(api.x.y)" -> "useMutation"
+ */
+export const HOOK_PATTERN = new RegExp(
+  `\\b(${Object.keys(CALL_KINDS)
+    .map((h) => h.replace(/\./g, "\\."))
+    .join("|")})\\s*\\(`,
+);
+
+/**
+ * Module specifiers that point to the generated Convex API
+ * e.g., "../convex/_generated/api", "@backend/_generated/api.js"
+ */
+const GENERATED_API_MODULE = /(^|\/)_generated\/api(\.js)?$/;
+
+/**
+ * A reference to a Convex API path found in a source file
+ */
+export interface ApiReference {
+  /** The fully resolved API path (e.g., "api.domains.contacts.createContact") */
+  apiPath: string;
+  /** Offset where the referencing expression starts */
+  start: number;
+  /** Offset where the referencing expression ends */
+  end: number;
+  /** The hook or method the reference is passed to, if any */
+  hookUsed?: string;
+  /** How the reference is called, if passed to a known hook or method */
+  kind?: UsageKind;
+}
+
+/**
+ * Find all references to Convex API paths in a source file
+ *
+ * Besides literal api.X.Y.Z expressions, this follows local aliases within the file:
+ *   - import { api as convexApi } from "../convex/_generated/api"
+ *   - const contactsApi = api.domains.contacts; useQuery(contactsApi.list)
+ *   - const { createContact } = api.domains.contacts
+ *   - const name = "contacts"; api.domains[name].list
+ *
+ * Only names imported from a _generated/api module are API roots, so modules that
+ * re-export the generated API are not followed. Aliases are tracked per file by
+ * name; shadowing in nested scopes is not modeled. Element access is resolved for
+ * string literals and const variables initialized with one; other computed keys
+ * (e.g., function parameters) are unknown until runtime and are skipped.
+ */
+export function findApiReferences(
+  sourceFile: ts.SourceFile,
+  apiObjectNames: string[],
+): ApiReference[] {
+  const bindings = new Map<string, string>();
+
+  // Collect API roots from imports
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      !statement.importClause?.namedBindings ||
+      !ts.isNamedImports(statement.importClause.namedBindings)
+    ) {
+      continue;
+    }
+    // Other modules may export unrelated objects named api (e.g., a tRPC client)
+    if (!GENERATED_API_MODULE.test(statement.moduleSpecifier.text)) {
+      continue;
+    }
+    for (const element of statement.importClause.namedBindings.elements) {
+      const importedName = (element.propertyName ?? element.name).text;
+      if (
+        apiObjectNames.includes(importedName) ||
+        importedName === "components"
+      ) {
+        bindings.set(element.name.text, importedName);
+      }
+    }
+  }
+
+  if (bindings.size === 0) {
+    return [];
+  }
+
+  // String constants usable as element access keys: const name = "contacts"
+  const stringConstants = new Map<string, string>();
+
+  const getElementKey = (argument: ts.Expression): string | null => {
+    const key = unwrapExpression(argument);
+    if (ts.isStringLiteralLike(key)) {
+      return key.text;
+    }
+    if (ts.isIdentifier(key)) {
+      return stringConstants.get(key.text) ?? null;
+    }
+    return null;
+  };
+
+  const resolvePath = (expression: ts.Expression): string | null => {
+    const node = unwrapExpression(expression);
+    if (ts.isIdentifier(node)) {
+      return bindings.get(node.text) ?? null;
+    }
+    if (ts.isPropertyAccessExpression(node)) {
+      const parent = resolvePath(node.expression);
+      return parent ? `${parent}.${node.name.text}` : null;
+    }
+    if (ts.isElementAccessExpression(node)) {
+      const key = getElementKey(node.argumentExpression);
+      const parent = key ? resolvePath(node.expression) : null;
+      return parent ? `${parent}.${key}` : null;
+    }
+    return null;
+  };
+
+  const bindPattern = (name: ts.BindingName, apiPath: string) => {
+    if (ts.isIdentifier(name)) {
+      bindings.set(name.text, apiPath);
+      return;
+    }
+    if (!ts.isObjectBindingPattern(name)) {
+      return;
+    }
+    for (const element of name.elements) {
+      if (element.dotDotDotToken) {
+        continue;
+      }
+      const property = element.propertyName ?? element.name;
+      if (ts.isIdentifier(property) || ts.isStringLiteral(property)) {
+        bindPattern(element.name, `${apiPath}.${property.text}`);
+      }
+    }
+  };
+
+  // Variables whose methods call Convex functions:
+  // const crons = cronJobs(), const client = new ConvexHttpClient(url),
+  // import { client } from "../lib/convex", (client: ConvexHttpClient) => ...
+  const receivers = findImportedHttpClients(sourceFile);
+
+  // First pass: follow variable aliases in source order
+  const collectBindings = (node: ts.Node) => {
+    if (
+      (ts.isVariableDeclaration(node) || ts.isParameter(node)) &&
+      ts.isIdentifier(node.name) &&
+      isHttpClientType(node.type)
+    ) {
+      receivers.set(node.name.text, "httpClient");
+    }
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.initializer
+    ) {
+      const receiver = getReceiverKind(node.initializer);
+      if (receiver) {
+        receivers.set(node.name.text, receiver);
+      }
+      const initializer = unwrapExpression(node.initializer);
+      if (
+        ts.isStringLiteralLike(initializer) &&
+        node.parent.flags & ts.NodeFlags.Const
+      ) {
+        stringConstants.set(node.name.text, initializer.text);
+      }
+    }
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      const apiPath = resolvePath(node.initializer);
+      if (apiPath) {
+        bindPattern(node.name, apiPath);
+      }
+    }
+    ts.forEachChild(node, collectBindings);
+  };
+  collectBindings(sourceFile);
+
+  // Second pass: collect the outermost expressions that resolve to an API path
+  const references: ApiReference[] = [];
+  const collectReferences = (node: ts.Node) => {
+    if (
+      ts.isPropertyAccessExpression(node) ||
+      ts.isElementAccessExpression(node) ||
+      (ts.isIdentifier(node) && isReferenceIdentifier(node))
+    ) {
+      const apiPath = resolvePath(node);
+      if (apiPath) {
+        references.push({
+          apiPath,
+          start: node.getStart(sourceFile),
+          end: node.getEnd(),
+          ...getCall(node, sourceFile, receivers),
+        });
+        return;
+      }
+    }
+    ts.forEachChild(node, collectReferences);
+  };
+  collectReferences(sourceFile);
+
+  return references;
+}
+
+/**
+ * Parse a file's content and convert all API references into usages
+ */
+export function findApiUsagesInSource(
+  filePath: string,
+  content: string,
+  apiObjectNames: string[],
+  isServerSide: boolean,
+): ConvexFunctionUsage[] {
+  const sourceFile = parseSourceFile(filePath, content);
+  const lines = content.split(/\r?\n/);
+
+  return findApiReferences(sourceFile, apiObjectNames).map((reference) => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+      reference.start,
+    );
+    return {
+      apiPath: reference.apiPath,
+      filePath,
+      line,
+      column: character,
+      length: reference.end - reference.start,
+      lineText: lines[line].trim(),
+      hookUsed: reference.hookUsed,
+      kind: classifyUsage(filePath, reference.kind),
+      isServerSide,
+    };
+  });
+}
+
+/**
+ * API paths written out in text (e.g., "api.domains.contacts.createContact")
+ * The root must not be a property itself, as in foo.api.x.
+ */
+const API_PATH_TEXT_PATTERN =
+  /(?<![\w$.])(?:api|internal|components)(?:\.[A-Za-z_$][\w$]*)+/g;
+
+/**
+ * Find API paths mentioned in a file's text that the parser did not resolve
+ *
+ * Like the literal matches of a ripgrep search, these are usually in comments or
+ * strings, so they are reported with the "comment" kind.
+ */
+export function findTextMentionsInSource(
+  filePath: string,
+  content: string,
+  parsedUsages: ConvexFunctionUsage[],
+  isServerSide: boolean,
+): ConvexFunctionUsage[] {
+  const confirmed = new Set(parsedUsages.map((u) => `${u.line}:${u.column}`));
+  const mentions: ConvexFunctionUsage[] = [];
+
+  content.split(/\r?\n/).forEach((lineText, line) => {
+    for (const match of lineText.matchAll(API_PATH_TEXT_PATTERN)) {
+      if (confirmed.has(`${line}:${match.index}`)) {
+        continue;
+      }
+      mentions.push({
+        apiPath: match[0],
+        filePath,
+        line,
+        column: match.index!,
+        length: match[0].length,
+        lineText: lineText.trim(),
+        kind: "comment",
+        isServerSide,
+      });
+    }
+  });
+
+  return mentions;
+}
+
+/**
+ * Check if an identifier is used as a value (not a declaration or property name)
+ */
+function isReferenceIdentifier(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (ts.isShorthandPropertyAssignment(parent)) {
+    return true;
+  }
+  if ("name" in parent && parent.name === node) {
+    return false;
+  }
+  if (
+    (ts.isBindingElement(parent) ||
+      ts.isImportSpecifier(parent) ||
+      ts.isExportSpecifier(parent)) &&
+    parent.propertyName === node
+  ) {
+    return false;
+  }
+  return !ts.isQualifiedName(parent) && !ts.isTypeReferenceNode(parent);
+}
+
+/**
+ * Get the kind of object a variable initializer creates, if its methods call Convex functions
+ */
+function getReceiverKind(
+  initializer: ts.Expression,
+): "cron" | "httpClient" | undefined {
+  const node = unwrapExpression(initializer);
+  if (
+    ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "cronJobs"
+  ) {
+    return "cron";
+  }
+  if (
+    ts.isNewExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "ConvexHttpClient"
+  ) {
+    return "httpClient";
+  }
+  return undefined;
+}
+
+/**
+ * Check if a type annotation names a ConvexHttpClient
+ */
+function isHttpClientType(type: ts.TypeNode | undefined): boolean {
+  return (
+    !!type &&
+    ts.isTypeReferenceNode(type) &&
+    type.typeName.getText() === "ConvexHttpClient"
+  );
+}
+
+/**
+ * Find the imported names that are ConvexHttpClient instances
+ *
+ * Relative imports are followed to their module, where the export must be
+ * created with new ConvexHttpClient(...) or typed as one. Other modules are not
+ * read, so their imports count as clients when named like one (e.g., client).
+ */
+function findImportedHttpClients(
+  sourceFile: ts.SourceFile,
+): Map<string, "cron" | "httpClient"> {
+  const receivers = new Map<string, "cron" | "httpClient">();
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      !statement.importClause ||
+      statement.importClause.isTypeOnly ||
+      GENERATED_API_MODULE.test(statement.moduleSpecifier.text)
+    ) {
+      continue;
+    }
+
+    const specifier = statement.moduleSpecifier.text;
+    const imports: { importedName: string; localName: string }[] = [];
+    if (statement.importClause.name) {
+      imports.push({
+        importedName: "default",
+        localName: statement.importClause.name.text,
+      });
+    }
+    const bindings = statement.importClause.namedBindings;
+    if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        imports.push({
+          importedName: (element.propertyName ?? element.name).text,
+          localName: element.name.text,
+        });
+      }
+    }
+    if (imports.length === 0) {
+      continue;
+    }
+
+    const modulePath = specifier.startsWith(".")
+      ? resolveRelativeImport(sourceFile.fileName, specifier)
+      : undefined;
+    const exportedClients = modulePath
+      ? getHttpClientExports(modulePath)
+      : undefined;
+    for (const { importedName, localName } of imports) {
+      const isClient = exportedClients
+        ? exportedClients.has(importedName)
+        : HTTP_CLIENT_NAME_PATTERN.test(localName);
+      if (isClient) {
+        receivers.set(localName, "httpClient");
+      }
+    }
+  }
+
+  return receivers;
+}
+
+/**
+ * Get the names a module exports as a ConvexHttpClient
+ * e.g., export const client = new ConvexHttpClient(url) -> "client"
+ */
+function getHttpClientExports(filePath: string): Set<string> {
+  let mtimeMs: number;
+  let content: string;
+  try {
+    mtimeMs = fs.statSync(filePath).mtimeMs;
+    const cached = httpClientExportsCache.get(filePath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.names;
+    }
+    content = fs.readFileSync(filePath, "utf8");
+  } catch {
+    return new Set();
+  }
+
+  const sourceFile = parseSourceFile(filePath, content);
+  const clients = new Set<string>();
+  const names = new Set<string>();
+  const isExported = (statement: ts.Statement) =>
+    ts.canHaveModifiers(statement) &&
+    ts
+      .getModifiers(statement)
+      ?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+  const isClient = (expression: ts.Expression) => {
+    const node = unwrapExpression(expression);
+    return (
+      getReceiverKind(node) === "httpClient" ||
+      (ts.isIdentifier(node) && clients.has(node.text))
+    );
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (
+          ts.isIdentifier(declaration.name) &&
+          (isHttpClientType(declaration.type) ||
+            (declaration.initializer && isClient(declaration.initializer)))
+        ) {
+          clients.add(declaration.name.text);
+          if (isExported(statement)) {
+            names.add(declaration.name.text);
+          }
+        }
+      }
+    } else if (
+      ts.isExportDeclaration(statement) &&
+      !statement.moduleSpecifier &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      // export { client } / export { client as convex }
+      for (const specifier of statement.exportClause.elements) {
+        if (clients.has((specifier.propertyName ?? specifier.name).text)) {
+          names.add(specifier.name.text);
+        }
+      }
+    } else if (
+      ts.isExportAssignment(statement) &&
+      !statement.isExportEquals &&
+      isClient(statement.expression)
+    ) {
+      names.add("default");
+    }
+  }
+
+  httpClientExportsCache.set(filePath, { mtimeMs, names });
+  return names;
+}
+
+/**
+ * Determine the hook or method a reference is passed to, and the kind of call
+ * e.g., useQuery(api.x.y) -> "useQuery" (reactive), fetchQuery(api.x.y) -> "fetchQuery" (serverRendered),
+ * client.query(api.x.y) -> "client.query" (httpClient), localStore.setQuery(api.x.y, ...) -> optimistic,
+ * crons.daily("digest", {...}, internal.x.y) -> "crons.daily" (cron)
+ */
+function getCall(
+  node: ts.Node,
+  sourceFile: ts.SourceFile,
+  receivers: Map<string, "cron" | "httpClient">,
+): { hookUsed: string; kind: UsageKind } | undefined {
+  let current = node;
+  while (
+    ts.isParenthesizedExpression(current.parent) ||
+    ts.isAsExpression(current.parent)
+  ) {
+    current = current.parent;
+  }
+
+  const parent = current.parent;
+  if (
+    !ts.isCallExpression(parent) ||
+    !parent.arguments.includes(current as ts.Expression)
+  ) {
+    return undefined;
+  }
+
+  const callee = parent.expression.getText(sourceFile).replace(/\s+/g, "");
+  const callKind = CALL_KINDS[callee];
+  if (callKind) {
+    return { hookUsed: callee, kind: callKind };
+  }
+
+  if (
+    !ts.isPropertyAccessExpression(parent.expression) ||
+    !ts.isIdentifier(parent.expression.expression)
+  ) {
+    return undefined;
+  }
+  const object = parent.expression.expression.text;
+  const method = parent.expression.name.text;
+  const receiver = receivers.get(object);
+
+  // The scheduled function is the third argument of every cron method
+  if (
+    receiver === "cron" &&
+    CRON_METHODS.includes(method) &&
+    parent.arguments[2] === current
+  ) {
+    return { hookUsed: callee, kind: "cron" };
+  }
+  if (receiver === "httpClient" && HTTP_CLIENT_METHODS.includes(method)) {
+    return { hookUsed: callee, kind: "httpClient" };
+  }
+  if (
+    LOCAL_STORE_METHODS.includes(method) &&
+    isOptimisticLocalStore(parent.expression.expression)
+  ) {
+    return { hookUsed: callee, kind: "optimistic" };
+  }
+  return undefined;
+}
+
+/**
+ * Check if an identifier is the local store of an optimistic update
+ * e.g., useMutation(api.x.y).withOptimisticUpdate((localStore, args) => ...)
+ *
+ * Optimistic updates declared as standalone functions are recognized by their
+ * types: a first parameter typed OptimisticLocalStore, or a function assigned
+ * to a variable typed OptimisticUpdate.
+ */
+function isOptimisticLocalStore(identifier: ts.Identifier): boolean {
+  for (let node: ts.Node = identifier; node.parent; node = node.parent) {
+    if (
+      !ts.isFunctionLike(node) ||
+      !node.parameters.some(
+        (p) => ts.isIdentifier(p.name) && p.name.text === identifier.text,
+      )
+    ) {
+      continue;
+    }
+
+    // The closest function declaring the name decides what it refers to
+    const [localStore] = node.parameters;
+    if (
+      !ts.isIdentifier(localStore.name) ||
+      localStore.name.text !== identifier.text
+    ) {
+      return false;
+    }
+    if (
+      localStore.type &&
+      ts.isTypeReferenceNode(localStore.type) &&
+      localStore.type.typeName.getText() === "OptimisticLocalStore"
+    ) {
+      return true;
+    }
+
+    const parent = node.parent;
+    if (
+      ts.isCallExpression(parent) &&
+      ts.isPropertyAccessExpression(parent.expression) &&
+      parent.expression.name.text === "withOptimisticUpdate"
+    ) {
+      return parent.arguments[0] === node;
+    }
+    return (
+      ts.isVariableDeclaration(parent) &&
+      !!parent.type &&
+      ts.isTypeReferenceNode(parent.type) &&
+      parent.type.typeName.getText() === "OptimisticUpdate"
+    );
+  }
+  return false;
+}
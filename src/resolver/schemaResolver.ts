@@ -0,0 +1,676 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as ts from "typescript";
+import type { ConvexIndexDefinition, ConvexTableDefinition } from "../types";
+import { parseSourceFile, unwrapExpression } from "./functionDetector";
+import { renderValidator } from "./validatorRenderer";
+
+const SCHEMA_FILES = ["schema.ts", "schema.js"];
+
+/**
+ * Methods of ctx.db that take a table name as their first argument
+ * e.g., ctx.db.query("contacts"), ctx.db.insert("contacts", {...})
+ */
+const DB_TABLE_METHODS = new Set([
+  "query",
+  "insert",
+  "get",
+  "patch",
+  "replace",
+  "delete",
+  "normalizeId",
+]);
+
+/**
+ * Generic types of the generated data model that take a table name
+ * e.g., Id<"contacts">, Doc<"contacts">
+ */
+const TABLE_TYPES = new Set(["Id", "Doc"]);
+
+/**
+ * Parsed schemas by schema file path, reused while the file is unchanged
+ */
+const schemaCache = new Map<
+  string,
+  { mtimeMs: number; tables: ConvexTableDefinition[] }
+>();
+
+/**
+ * Query methods that take an index name, with the kind of index they expect
+ * e.g., ctx.db.query("contacts").withIndex("by_email", ...)
+ */
+const INDEX_METHODS: Record<string, ConvexIndexDefinition["kind"]> = {
+  withIndex: "index",
+  withSearchIndex: "searchIndex",
+};
+
+/**
+ * Indexes Convex defines on every table, with their fields
+ */
+export const SYSTEM_INDEXES: Record<string, string[]> = {
+  by_id: ["_id"],
+  by_creation_time: ["_creationTime"],
+};
+
+/**
+ * Index range methods of withIndex callbacks, which take a field name
+ * e.g., q.eq("email", email).gt("_creationTime", since)
+ */
+const INDEX_RANGE_METHODS = new Set(["eq", "gt", "gte", "lt", "lte"]);
+
+/**
+ * What the string literal at the cursor names, for completions
+ *   - table: ctx.db.query("|"), v.id("|"), Id<"|">
+ *   - index: .withIndex("|"), .withSearchIndex("|")
+ *   - field: .withIndex("by_x", (q) => q.eq("|", ...)), .withSearchIndex("s", (q) => q.search("|", ...))
+ */
+export type SchemaCompletionContext = {
+  /** Offset where the literal's text starts (inside the quotes) */
+  start: number;
+  /** Offset where the literal's text ends */
+  end: number;
+} & (
+  | { kind: "table" }
+  | {
+      kind: "index";
+      tableName: string;
+      indexKind: ConvexIndexDefinition["kind"];
+    }
+  | {
+      kind: "field";
+      tableName: string;
+      indexName: string;
+      /** Method taking the field (e.g., "eq", "search") */
+      method: string;
+      /** Number of q.eq() calls before this one in the chain */
+      precedingEqs: number;
+    }
+);
+
+/**
+ * A table name referenced by a string literal in source code
+ */
+export interface TableReference {
+  tableName: string;
+  /** Offset where the table name starts (inside the quotes) */
+  start: number;
+  /** Offset where the table name ends */
+  end: number;
+}
+
+/**
+ * Find the schema file of a convex directory
+ */
+export function findSchemaFile(convexDir: string): string | undefined {
+  return SCHEMA_FILES.map((file) => path.join(convexDir, file)).find((file) =>
+    fs.existsSync(file),
+  );
+}
+
+/**
+ * Get the tables declared in the schema of a convex directory
+ */
+export function getSchemaTables(convexDir: string): ConvexTableDefinition[] {
+  const schemaPath = findSchemaFile(convexDir);
+  if (!schemaPath) {
+    return [];
+  }
+
+  try {
+    const { mtimeMs } = fs.statSync(schemaPath);
+    const cached = schemaCache.get(schemaPath);
+    if (cached?.mtimeMs === mtimeMs) {
+      return cached.tables;
+    }
+
+    const tables = parseSchemaTables(
+      parseSourceFile(schemaPath, fs.readFileSync(schemaPath, "utf8")),
+    );
+    schemaCache.set(schemaPath, { mtimeMs, tables });
+    return tables;
+  } catch (error) {
+    console.error(`Error parsing schema ${schemaPath}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Find the tables of a defineSchema({...}) call
+ *
+ * Detects:
+ *   - contacts: defineTable({...}).index("by_email", ["email"])
+ *   - contacts: contactsTable, with const contactsTable = defineTable({...})
+ *   - { contacts }, with const contacts = defineTable({...})
+ */
+export function parseSchemaTables(
+  sourceFile: ts.SourceFile,
+): ConvexTableDefinition[] {
+  const schema = findDefineSchemaCall(sourceFile);
+  const [tablesArgument] = schema?.arguments ?? [];
+  if (!tablesArgument || !ts.isObjectLiteralExpression(tablesArgument)) {
+    return [];
+  }
+
+  const tables: ConvexTableDefinition[] = [];
+  for (const property of tablesArgument.properties) {
+    let value: ts.Expression;
+    if (ts.isPropertyAssignment(property)) {
+      value = property.initializer;
+    } else if (ts.isShorthandPropertyAssignment(property)) {
+      value = property.name;
+    } else {
+      continue;
+    }
+
+    const nameNode = property.name;
+    const name = ts.isIdentifier(nameNode)
+      ? nameNode.text
+      : ts.isStringLiteral(nameNode)
+        ? nameNode.text
+        : undefined;
+    if (!name) {
+      continue;
+    }
+
+    const table = parseTableDefinition(value, sourceFile);
+    const start = ts.isStringLiteral(nameNode)
+      ? nameNode.getStart(sourceFile) + 1
+      : nameNode.getStart(sourceFile);
+    const position = sourceFile.getLineAndCharacterOfPosition(start);
+    tables.push({
+      name,
+      filePath: sourceFile.fileName,
+      line: position.line,
+      column: position.character,
+      fields: table?.fields ?? "unknown",
+      indexes: table?.indexes ?? [],
+      parsed: !!table,
+    });
+  }
+
+  return tables;
+}
+
+/**
+ * Find the defineSchema() call of a schema file
+ */
+function findDefineSchemaCall(
+  sourceFile: ts.SourceFile,
+): ts.CallExpression | undefined {
+  let schema: ts.CallExpression | undefined;
+  const visit = (node: ts.Node) => {
+    if (schema) {
+      return;
+    }
+    if (
+      ts.isCallExpression(node) &&
+      getCalleeName(node.expression) === "defineSchema"
+    ) {
+      schema = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return schema;
+}
+
+/**
+ * Parse a defineTable({...}).index(...) chain into its fields and indexes
+ */
+function parseTableDefinition(
+  expression: ts.Expression,
+  sourceFile: ts.SourceFile,
+): { fields: string; indexes: ConvexIndexDefinition[] } | null {
+  let current = unwrapExpression(expression);
+
+  // Follow a table declared as a constant (const contacts = defineTable(...))
+  if (ts.isIdentifier(current)) {
+    const initializer = findVariableInitializer(current.text, sourceFile);
+    if (!initializer) {
+      return null;
+    }
+    current = unwrapExpression(initializer);
+  }
+
+  // Walk the method chain backwards: .vectorIndex(...).searchIndex(...).index(...)
+  const indexes: ConvexIndexDefinition[] = [];
+  while (
+    ts.isCallExpression(current) &&
+    ts.isPropertyAccessExpression(current.expression)
+  ) {
+    const index = parseIndex(current, sourceFile);
+    if (index) {
+      indexes.unshift(index);
+    }
+    current = unwrapExpression(current.expression.expression);
+  }
+
+  if (
+    !ts.isCallExpression(current) ||
+    getCalleeName(current.expression) !== "defineTable"
+  ) {
+    return null;
+  }
+
+  const [document] = current.arguments;
+  return {
+    fields: document ? renderValidator(document, sourceFile) : "{}",
+    indexes,
+  };
+}
+
+/**
+ * Parse one .index() / .searchIndex() / .vectorIndex() call
+ *
+ *   .index("by_email", ["email"])
+ *   .index("by_email", { fields: ["email"] })
+ *   .searchIndex("search_name", { searchField: "name", filterFields: ["tag"] })
+ *   .vectorIndex("by_embedding", { vectorField: "embedding", dimensions: 1536 })
+ */
+function parseIndex(
+  call: ts.CallExpression,
+  sourceFile: ts.SourceFile,
+): ConvexIndexDefinition | null {
+  const kind = (call.expression as ts.PropertyAccessExpression).name.text;
+  if (kind !== "index" && kind !== "searchIndex" && kind !== "vectorIndex") {
+    return null;
+  }
+
+  const [nameArgument, fieldsArgument] = call.arguments;
+  if (!nameArgument || !ts.isStringLiteralLike(nameArgument)) {
+    return null;
+  }
+
+  const fields: string[] = [];
+  if (fieldsArgument && ts.isArrayLiteralExpression(fieldsArgument)) {
+    fields.push(...getStringElements(fieldsArgument));
+  } else if (fieldsArgument && ts.isObjectLiteralExpression(fieldsArgument)) {
+    for (const key of [
+      "searchField",
+      "vectorField",
+      "fields",
+      "filterFields",
+    ]) {
+      const value = getPropertyValue(fieldsArgument, key);
+      if (value && ts.isStringLiteralLike(value)) {
+        fields.push(value.text);
+      } else if (value && ts.isArrayLiteralExpression(value)) {
+        fields.push(...getStringElements(value));
+      }
+    }
+  }
+
+  const position = sourceFile.getLineAndCharacterOfPosition(
+    nameArgument.getStart(sourceFile) + 1,
+  );
+  return {
+    name: nameArgument.text,
+    kind,
+    fields,
+    line: position.line,
+    column: position.character,
+  };
+}
+
+/**
+ * Find the table name string literals in a source file
+ *
+ * Detects:
+ *   - ctx.db.query("contacts"), ctx.db.insert("contacts", ...), db.get("contacts", id)
+ *   - v.id("contacts")
+ *   - Id<"contacts">, Doc<"contacts">
+ */
+export function findTableReferences(
+  sourceFile: ts.SourceFile,
+): TableReference[] {
+  const references: TableReference[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isStringLiteralLike(node) && isTableNameLiteral(node)) {
+      references.push({
+        tableName: node.text,
+        start: node.getStart(sourceFile) + 1,
+        end: node.getEnd() - 1,
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return references;
+}
+
+/**
+ * An index name referenced by a query in source code
+ */
+export interface IndexReference {
+  tableName: string;
+  indexName: string;
+  /** Kind of index the query method expects */
+  kind: ConvexIndexDefinition["kind"];
+  /** Offset where the index name starts (inside the quotes) */
+  start: number;
+  /** Offset where the index name ends */
+  end: number;
+}
+
+/**
+ * Find the index names used by queries in a source file
+ *
+ * Detects:
+ *   - ctx.db.query("contacts").withIndex("by_email", ...)
+ *   - ctx.db.query("contacts").withSearchIndex("search_name", ...)
+ *   - ctx.vectorSearch("contacts", "by_embedding", {...})
+ *
+ * Queries stored in a variable before .withIndex() are not followed.
+ */
+export function findIndexReferences(
+  sourceFile: ts.SourceFile,
+): IndexReference[] {
+  const references: IndexReference[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression)
+    ) {
+      const method = node.expression.name.text;
+      const [first, second] = node.arguments;
+
+      if (method in INDEX_METHODS && first && ts.isStringLiteralLike(first)) {
+        const tableName = findQueriedTable(node.expression.expression);
+        if (tableName) {
+          references.push({
+            tableName,
+            indexName: first.text,
+            kind: INDEX_METHODS[method],
+            start: first.getStart(sourceFile) + 1,
+            end: first.getEnd() - 1,
+          });
+        }
+      }
+
+      if (
+        method === "vectorSearch" &&
+        first &&
+        ts.isStringLiteralLike(first) &&
+        second &&
+        ts.isStringLiteralLike(second)
+      ) {
+        references.push({
+          tableName: first.text,
+          indexName: second.text,
+          kind: "vectorIndex",
+          start: second.getStart(sourceFile) + 1,
+          end: second.getEnd() - 1,
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return references;
+}
+
+/**
+ * Find the index name at an offset, if any
+ */
+export function findIndexReferenceAtOffset(
+  sourceFile: ts.SourceFile,
+  offset: number,
+): IndexReference | null {
+  return (
+    findIndexReferences(sourceFile).find(
+      (reference) => reference.start <= offset && offset <= reference.end,
+    ) ?? null
+  );
+}
+
+/**
+ * Find what the string literal at an offset names, for schema completions
+ * Unterminated literals (e.g., ctx.db.query("con) are handled too.
+ */
+export function findSchemaCompletionContext(
+  sourceFile: ts.SourceFile,
+  offset: number,
+): SchemaCompletionContext | null {
+  let literal: ts.StringLiteralLike | undefined;
+  const visit = (node: ts.Node) => {
+    if (node.getStart(sourceFile) >= offset || node.getEnd() < offset) {
+      return;
+    }
+    if (ts.isStringLiteralLike(node)) {
+      literal = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  if (!literal) {
+    return null;
+  }
+
+  const start = literal.getStart(sourceFile) + 1;
+  const quote = sourceFile.text[start - 1];
+  const isTerminated =
+    literal.getEnd() > start && sourceFile.text[literal.getEnd() - 1] === quote;
+  const end = isTerminated ? literal.getEnd() - 1 : literal.getEnd();
+  if (offset > end) {
+    return null;
+  }
+
+  if (isTableNameLiteral(literal)) {
+    return { kind: "table", start, end };
+  }
+
+  const call = literal.parent;
+  if (
+    !ts.isCallExpression(call) ||
+    call.arguments[0] !== literal ||
+    !ts.isPropertyAccessExpression(call.expression)
+  ) {
+    return null;
+  }
+  const method = call.expression.name.text;
+
+  // .withIndex("|")
+  if (method in INDEX_METHODS) {
+    const tableName = findQueriedTable(call.expression.expression);
+    return tableName
+      ? {
+          kind: "index",
+          tableName,
+          indexKind: INDEX_METHODS[method],
+          start,
+          end,
+        }
+      : null;
+  }
+
+  // q.eq("|") inside the callback of .withIndex("by_x", (q) => ...)
+  if (!INDEX_RANGE_METHODS.has(method) && method !== "search") {
+    return null;
+  }
+  let precedingEqs = 0;
+  let receiver = unwrapExpression(call.expression.expression);
+  while (
+    ts.isCallExpression(receiver) &&
+    ts.isPropertyAccessExpression(receiver.expression)
+  ) {
+    if (receiver.expression.name.text === "eq") {
+      precedingEqs++;
+    }
+    receiver = unwrapExpression(receiver.expression.expression);
+  }
+
+  let callback: ts.Node = call;
+  while (
+    callback.parent &&
+    !ts.isArrowFunction(callback) &&
+    !ts.isFunctionExpression(callback)
+  ) {
+    callback = callback.parent;
+  }
+  const indexCall = callback.parent;
+  if (
+    !indexCall ||
+    !ts.isCallExpression(indexCall) ||
+    indexCall.arguments[1] !== callback ||
+    !ts.isPropertyAccessExpression(indexCall.expression) ||
+    !(indexCall.expression.name.text in INDEX_METHODS)
+  ) {
+    return null;
+  }
+  const [indexArgument] = indexCall.arguments;
+  const tableName = findQueriedTable(indexCall.expression.expression);
+  if (!tableName || !ts.isStringLiteralLike(indexArgument)) {
+    return null;
+  }
+
+  return {
+    kind: "field",
+    tableName,
+    indexName: indexArgument.text,
+    method,
+    precedingEqs,
+    start,
+    end,
+  };
+}
+
+/**
+ * Find the table of the db.query("table") call a query chain starts from
+ */
+function findQueriedTable(expression: ts.Expression): string | undefined {
+  let current = unwrapExpression(expression);
+  while (ts.isCallExpression(current)) {
+    const [first] = current.arguments;
+    if (
+      ts.isPropertyAccessExpression(current.expression) &&
+      current.expression.name.text === "query" &&
+      first &&
+      ts.isStringLiteralLike(first) &&
+      isTableNameLiteral(first)
+    ) {
+      return first.text;
+    }
+    if (!ts.isPropertyAccessExpression(current.expression)) {
+      return undefined;
+    }
+    current = unwrapExpression(current.expression.expression);
+  }
+  return undefined;
+}
+
+/**
+ * Find the table name string literal at an offset, if any
+ */
+export function findTableReferenceAtOffset(
+  sourceFile: ts.SourceFile,
+  offset: number,
+): TableReference | null {
+  return (
+    findTableReferences(sourceFile).find(
+      (reference) => reference.start <= offset && offset <= reference.end,
+    ) ?? null
+  );
+}
+
+/**
+ * Check if a string literal is used as a table name
+ */
+function isTableNameLiteral(literal: ts.StringLiteralLike): boolean {
+  const parent = literal.parent;
+
+  // Id<"contacts">, Doc<"contacts">
+  if (ts.isLiteralTypeNode(parent)) {
+    const typeReference = parent.parent;
+    return (
+      ts.isTypeReferenceNode(typeReference) &&
+      typeReference.typeArguments?.[0] === parent &&
+      TABLE_TYPES.has(typeReference.typeName.getText())
+    );
+  }
+
+  if (
+    !ts.isCallExpression(parent) ||
+    parent.arguments[0] !== literal ||
+    !ts.isPropertyAccessExpression(parent.expression)
+  ) {
+    return false;
+  }
+
+  const method = parent.expression.name.text;
+  const object = unwrapExpression(parent.expression.expression);
+
+  // v.id("contacts")
+  if (method === "id") {
+    return ts.isIdentifier(object) && object.text === "v";
+  }
+
+  // ctx.db.query("contacts"), db.insert("contacts", ...)
+  return (
+    DB_TABLE_METHODS.has(method) &&
+    ((ts.isIdentifier(object) && object.text === "db") ||
+      (ts.isPropertyAccessExpression(object) && object.name.text === "db"))
+  );
+}
+
+/**
+ * Get the name of a called function (e.g., defineTable, or server.defineTable)
+ */
+function getCalleeName(expression: ts.Expression): string | undefined {
+  if (ts.isIdentifier(expression)) {
+    return expression.text;
+  }
+  if (ts.isPropertyAccessExpression(expression)) {
+    return expression.name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Find the initializer of a top-level variable
+ */
+function findVariableInitializer(
+  name: string,
+  sourceFile: ts.SourceFile,
+): ts.Expression | undefined {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) {
+      continue;
+    }
+    for (const declaration of statement.declarationList.declarations) {
+      if (ts.isIdentifier(declaration.name) && declaration.name.text === name) {
+        return declaration.initializer;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the value of a property in an object literal
+ */
+function getPropertyValue(
+  object: ts.ObjectLiteralExpression,
+  name: string,
+): ts.Expression | undefined {
+  for (const property of object.properties) {
+    if (ts.isPropertyAssignment(property) && property.name.getText() === name) {
+      return property.initializer;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the string elements of an array literal
+ */
+function getStringElements(array: ts.ArrayLiteralExpression): string[] {
+  return array.elements
+    .filter(ts.isStringLiteralLike)
+    .map((element) => element.text);
+}
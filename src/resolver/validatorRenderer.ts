@@ -0,0 +1,392 @@
+import * as fs from "fs";
+import * as ts from "typescript";
+import { parseSourceFile, unwrapExpression } from "./functionDetector";
+import { resolveRelativeImport } from "./pathResolver";
+
+/**
+ * Objects longer than this are rendered with one property per line
+ */
+const MAX_INLINE_LENGTH = 60;
+
+/**
+ * Stop following validator constants after this many hops (guards against cycles)
+ */
+const MAX_DEPTH = 10;
+
+/**
+ * Validators that map directly to a TypeScript type
+ */
+const PRIMITIVE_VALIDATORS: Record<string, string> = {
+  string: "string",
+  number: "number",
+  float64: "number",
+  int64: "bigint",
+  bigint: "bigint",
+  boolean: "boolean",
+  null: "null",
+  any: "any",
+  bytes: "ArrayBuffer",
+};
+
+/**
+ * An expression together with the file it was found in
+ */
+interface SourceExpression {
+  expression: ts.Expression;
+  sourceFile: ts.SourceFile;
+}
+
+/**
+ * State shared while rendering one validator
+ */
+interface RenderState {
+  depth: number;
+  /** Parsed files by path (null if unreadable), reused for imports */
+  files: Map<string, ts.SourceFile | null>;
+  /** Imports being followed ("file#name"), so import cycles stop */
+  importing: Set<string>;
+}
+
+/**
+ * Render a Convex validator as a TypeScript-like type
+ * e.g., { name: v.string(), tags: v.optional(v.array(v.id("tags"))) }
+ *   -> { name: string; tags?: Id<"tags">[] }
+ *
+ * Validator constants defined in the same file or imported through relative
+ * imports are followed. Anything that is not recognized is shown as written.
+ */
+export function renderValidator(
+  expression: ts.Expression,
+  sourceFile: ts.SourceFile,
+): string {
+  return render({ expression, sourceFile }, "", {
+    depth: 0,
+    files: new Map(),
+    importing: new Set(),
+  });
+}
+
+function render(
+  source: SourceExpression,
+  indent: string,
+  state: RenderState,
+): string {
+  const expression = unwrapExpression(source.expression);
+  const { sourceFile } = source;
+
+  // A plain object of validators (e.g., args: { name: v.string() })
+  if (ts.isObjectLiteralExpression(expression)) {
+    return renderObject({ expression, sourceFile }, indent, state);
+  }
+
+  // A validator constant (e.g., args: contactFields, v.array(tagValidator))
+  if (
+    ts.isIdentifier(expression) ||
+    ts.isPropertyAccessExpression(expression)
+  ) {
+    const resolved = resolveReference(expression, sourceFile, state);
+    if (resolved && state.depth < MAX_DEPTH) {
+      state.depth++;
+      const rendered = render(resolved, indent, state);
+      state.depth--;
+      return rendered;
+    }
+    return expression.getText(sourceFile);
+  }
+
+  if (
+    ts.isCallExpression(expression) &&
+    ts.isPropertyAccessExpression(expression.expression)
+  ) {
+    const method = expression.expression.name.text;
+    const args = expression.arguments.map((argument) => ({
+      expression: argument,
+      sourceFile,
+    }));
+
+    if (method in PRIMITIVE_VALIDATORS && args.length === 0) {
+      return PRIMITIVE_VALIDATORS[method];
+    }
+
+    switch (method) {
+      case "id":
+        return `Id<${args[0]?.expression.getText(sourceFile) ?? "string"}>`;
+      case "literal":
+        return args[0]?.expression.getText(sourceFile) ?? "unknown";
+      case "object":
+        return args[0] ? render(args[0], indent, state) : "{}";
+      case "array":
+        return args[0]
+          ? `${parenthesize(render(args[0], indent, state))}[]`
+          : "unknown[]";
+      case "union":
+        return args.map((arg) => render(arg, indent, state)).join(" | ");
+      case "optional":
+        return args[0]
+          ? `${render(args[0], indent, state)} | undefined`
+          : "undefined";
+      case "nullable":
+        return args[0] ? `${render(args[0], indent, state)} | null` : "null";
+      case "record":
+        return args.length === 2
+          ? `Record<${render(args[0], indent, state)}, ${render(args[1], indent, state)}>`
+          : "Record<string, unknown>";
+    }
+  }
+
+  return expression.getText(sourceFile).replace(/\s+/g, " ");
+}
+
+/**
+ * Render an object of validators, one property per line when it gets long
+ */
+function renderObject(
+  source: { expression: ts.ObjectLiteralExpression; sourceFile: ts.SourceFile },
+  indent: string,
+  state: RenderState,
+): string {
+  const innerIndent = `${indent}  `;
+  const members = collectProperties(source, state).map(
+    ({ name, value, sourceFile }) => {
+      const optional = getOptionalInner(value);
+      return optional
+        ? `${name}?: ${render({ expression: optional, sourceFile }, innerIndent, state)}`
+        : `${name}: ${render({ expression: value, sourceFile }, innerIndent, state)}`;
+    },
+  );
+
+  if (members.length === 0) {
+    return "{}";
+  }
+
+  const inline = `{ ${members.join("; ")} }`;
+  if (inline.length <= MAX_INLINE_LENGTH && !inline.includes("\n")) {
+    return inline;
+  }
+  return `{\n${members.map((m) => `${innerIndent}${m};`).join("\n")}\n${indent}}`;
+}
+
+/**
+ * Collect the properties of an object literal, expanding spread constants
+ */
+function collectProperties(
+  source: { expression: ts.ObjectLiteralExpression; sourceFile: ts.SourceFile },
+  state: RenderState,
+): { name: string; value: ts.Expression; sourceFile: ts.SourceFile }[] {
+  const { expression, sourceFile } = source;
+  const properties: {
+    name: string;
+    value: ts.Expression;
+    sourceFile: ts.SourceFile;
+  }[] = [];
+
+  for (const property of expression.properties) {
+    if (ts.isPropertyAssignment(property)) {
+      properties.push({
+        name: property.name.getText(sourceFile),
+        value: property.initializer,
+        sourceFile,
+      });
+    } else if (ts.isShorthandPropertyAssignment(property)) {
+      properties.push({
+        name: property.name.text,
+        value: property.name,
+        sourceFile,
+      });
+    } else if (ts.isSpreadAssignment(property)) {
+      // e.g., { ...contactFields, id: v.id("contacts") }
+      const spread = resolveObject(
+        { expression: property.expression, sourceFile },
+        state,
+      );
+      if (spread && state.depth < MAX_DEPTH) {
+        state.depth++;
+        properties.push(...collectProperties(spread, state));
+        state.depth--;
+      } else {
+        properties.push({
+          name: `...${property.expression.getText(sourceFile)}`,
+          value: property.expression,
+          sourceFile,
+        });
+      }
+    }
+  }
+
+  return properties;
+}
+
+/**
+ * Resolve an expression to an object literal, following constants and v.object()
+ */
+function resolveObject(
+  source: SourceExpression,
+  state: RenderState,
+): {
+  expression: ts.ObjectLiteralExpression;
+  sourceFile: ts.SourceFile;
+} | null {
+  for (let depth = 0; depth < MAX_DEPTH; depth++) {
+    const expression = unwrapExpression(source.expression);
+    if (ts.isObjectLiteralExpression(expression)) {
+      return { expression, sourceFile: source.sourceFile };
+    }
+    if (
+      ts.isCallExpression(expression) &&
+      ts.isPropertyAccessExpression(expression.expression) &&
+      expression.expression.name.text === "object" &&
+      expression.arguments.length > 0
+    ) {
+      source = {
+        expression: expression.arguments[0],
+        sourceFile: source.sourceFile,
+      };
+      continue;
+    }
+    if (
+      ts.isIdentifier(expression) ||
+      ts.isPropertyAccessExpression(expression)
+    ) {
+      const resolved = resolveReference(expression, source.sourceFile, state);
+      if (!resolved) {
+        return null;
+      }
+      source = resolved;
+      continue;
+    }
+    return null;
+  }
+  return null;
+}
+
+/**
+ * Get the inner validator of v.optional(inner), if the value is optional
+ */
+function getOptionalInner(value: ts.Expression): ts.Expression | null {
+  const expression = unwrapExpression(value);
+  if (
+    ts.isCallExpression(expression) &&
+    ts.isPropertyAccessExpression(expression.expression) &&
+    expression.expression.name.text === "optional" &&
+    expression.arguments.length > 0
+  ) {
+    return expression.arguments[0];
+  }
+  return null;
+}
+
+/**
+ * Wrap union types in parentheses (e.g., for array element types)
+ */
+function parenthesize(type: string): string {
+  return type.includes(" | ") ? `(${type})` : type;
+}
+
+/**
+ * Resolve an identifier or property access to the expression it stands for
+ * e.g., contactFields -> its initializer, validators.contact -> the property value
+ */
+function resolveReference(
+  expression: ts.Identifier | ts.PropertyAccessExpression,
+  sourceFile: ts.SourceFile,
+  state: RenderState,
+): SourceExpression | null {
+  if (ts.isPropertyAccessExpression(expression)) {
+    const object = resolveObject(
+      { expression: expression.expression, sourceFile },
+      state,
+    );
+    const property = object?.expression.properties.find(
+      (p): p is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(p) &&
+        p.name.getText(object.sourceFile) === expression.name.text,
+    );
+    return property && object
+      ? { expression: property.initializer, sourceFile: object.sourceFile }
+      : null;
+  }
+
+  const name = expression.text;
+  for (const statement of sourceFile.statements) {
+    // const contactFields = {...}
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (
+          ts.isIdentifier(declaration.name) &&
+          declaration.name.text === name &&
+          declaration.initializer
+        ) {
+          return { expression: declaration.initializer, sourceFile };
+        }
+      }
+    }
+
+    // import { contactFields } from "./validators"
+    if (
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      statement.moduleSpecifier.text.startsWith(".") &&
+      statement.importClause?.namedBindings &&
+      ts.isNamedImports(statement.importClause.namedBindings)
+    ) {
+      const element = statement.importClause.namedBindings.elements.find(
+        (e) => e.name.text === name,
+      );
+      if (!element) {
+        continue;
+      }
+      const importedFile = loadModule(
+        sourceFile.fileName,
+        statement.moduleSpecifier.text,
+        state,
+      );
+      if (!importedFile) {
+        return null;
+      }
+      // Modules importing each other's validators would recurse forever
+      const importedName = (element.propertyName ?? element.name).text;
+      const key = `${importedFile.fileName}#${importedName}`;
+      if (state.importing.has(key)) {
+        return null;
+      }
+      state.importing.add(key);
+      try {
+        return resolveReference(
+          ts.factory.createIdentifier(importedName),
+          importedFile,
+          state,
+        );
+      } finally {
+        state.importing.delete(key);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse the module a relative import points to
+ */
+function loadModule(
+  fromFile: string,
+  specifier: string,
+  state: RenderState,
+): ts.SourceFile | null {
+  const filePath = resolveRelativeImport(fromFile, specifier);
+  if (!filePath) {
+    return null;
+  }
+  if (state.files.has(filePath)) {
+    return state.files.get(filePath) ?? null;
+  }
+
+  let sourceFile: ts.SourceFile | null = null;
+  try {
+    sourceFile = parseSourceFile(filePath, fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    console.error(`Error reading validator module ${filePath}:`, error);
+  }
+  state.files.set(filePath, sourceFile);
+  return sourceFile;
+}
@@ -0,0 +1,413 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { getAllWrappers, getConfig } from "../config";
+import type { ConvexFunctionDefinition, ConvexFunctionUsage } from "../types";
+import {
+  findConvexFunctionsInFile,
+  findConvexFunctionsInSource,
+  parseSourceFile,
+} from "./functionDetector";
+import {
+  findApiUsagesInSource,
+  findTextMentionsInSource,
+} from "./referenceResolver";
+import {
+  getConvexProjectInfo,
+  getConvexProjects,
+  getSearchPaths,
+  isConvexBackendFile,
+  isExcludedPath,
+  isInsideDirectory,
+} from "./pathResolver";
+
+/**
+ * Bump when the persisted format or the indexed data changes
+ */
+const INDEX_VERSION = 6;
+const INDEX_FILE_NAME = "convex-index.json";
+const SAVE_DELAY_MS = 2000;
+
+/**
+ * Everything the index knows about a single file
+ */
+interface IndexedFile {
+  /** Modification time of the file when it was indexed */
+  mtimeMs: number;
+  /** Convex functions defined in the file (backend files only) */
+  definitions: ConvexFunctionDefinition[];
+  /** References to Convex API paths in the file */
+  usages: ConvexFunctionUsage[];
+  /** Convex directory of the project the file's API references resolve against */
+  convexDir?: string;
+}
+
+/**
+ * Shape of the index persisted in the extension's workspace storage
+ */
+interface PersistedIndex {
+  version: number;
+  /** Settings the indexed data depends on; a mismatch discards the index */
+  configKey: string;
+  files: Record<string, IndexedFile>;
+}
+
+// The index for the current workspace, created on activation
+let activeIndex: ConvexWorkspaceIndex | null = null;
+
+/**
+ * Get the workspace index, if it has finished building
+ */
+export function getWorkspaceIndex(): ConvexWorkspaceIndex | null {
+  return activeIndex?.isReady ? activeIndex : null;
+}
+
+/**
+ * Get every Convex function definition in the convex directories of all projects
+ * Uses the workspace index when ready, otherwise parses each backend file.
+ */
+export async function getAllConvexFunctions(): Promise<
+  ConvexFunctionDefinition[]
+> {
+  const index = getWorkspaceIndex();
+  if (index) {
+    return index.getDefinitions();
+  }
+
+  const definitions: ConvexFunctionDefinition[] = [];
+  for (const projectInfo of await getConvexProjects()) {
+    const files = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(projectInfo.convexDir, "**/*.{ts,tsx,js,jsx}"),
+      `{${getConfig().excludePatterns.join(",")}}`,
+    );
+
+    for (const file of files) {
+      definitions.push(...(await findConvexFunctionsInFile(file.fsPath)));
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Set the index used by usage lookups (called on activation)
+ */
+export function setWorkspaceIndex(index: ConvexWorkspaceIndex | null): void {
+  activeIndex = index;
+}
+
+/**
+ * In-memory index of every Convex function definition and API usage in the workspace
+ *
+ * The index is built once on activation, optionally restored from workspace storage,
+ * and then kept up to date incrementally from file system events.
+ */
+export class ConvexWorkspaceIndex implements vscode.Disposable {
+  private files = new Map<string, IndexedFile>();
+  private usagesByApiPath: Map<string, ConvexFunctionUsage[]> | null = null;
+  private ready = false;
+  private buildGeneration = 0;
+  /** Files created, changed or deleted while a build was running */
+  private readonly pendingPaths = new Set<string>();
+  private saveTimer: NodeJS.Timeout | undefined;
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  /** Fired whenever indexed definitions or usages change */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly storageUri: vscode.Uri | undefined) {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      "**/*.{ts,tsx,js,jsx}",
+    );
+    watcher.onDidCreate((uri) => this.updateFile(uri.fsPath));
+    watcher.onDidChange((uri) => this.updateFile(uri.fsPath));
+    watcher.onDidDelete((uri) => this.removeFile(uri.fsPath));
+    this.disposables.push(watcher, this.changeEmitter);
+  }
+
+  get isReady(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Build the index from scratch, reusing persisted entries for unchanged files
+   */
+  async build(): Promise<void> {
+    const generation = ++this.buildGeneration;
+    this.ready = false;
+    const persisted = await this.load();
+    const files = new Map<string, IndexedFile>();
+
+    for (const filePath of await this.findIndexableFiles()) {
+      // A newer build was started (e.g., settings changed); drop this one
+      if (generation !== this.buildGeneration) {
+        return;
+      }
+      try {
+        const stat = await fs.promises.stat(filePath);
+        const cached = persisted?.files[filePath];
+        files.set(
+          filePath,
+          cached && cached.mtimeMs === stat.mtimeMs
+            ? cached
+            : await this.indexFile(filePath, stat.mtimeMs),
+        );
+      } catch (error) {
+        console.error(`Error indexing file ${filePath}:`, error);
+      }
+    }
+
+    this.files = files;
+    this.usagesByApiPath = null;
+    this.ready = true;
+    this.changeEmitter.fire();
+    this.scheduleSave();
+
+    await this.applyPendingPaths();
+  }
+
+  /**
+   * Get all Convex function definitions in the workspace
+   */
+  getDefinitions(): ConvexFunctionDefinition[] {
+    return [...this.files.values()].flatMap((file) => file.definitions);
+  }
+
+  /**
+   * Get all usages of an API path (e.g., "api.domains.contacts.createContact")
+   * in files that resolve it against the given project's convex directory
+   */
+  getUsages(apiPath: string, convexDir: string): ConvexFunctionUsage[] {
+    if (!this.usagesByApiPath) {
+      this.usagesByApiPath = new Map();
+      for (const file of this.files.values()) {
+        for (const usage of file.usages) {
+          const key = `${file.convexDir}:${usage.apiPath}`;
+          const usages = this.usagesByApiPath.get(key) ?? [];
+          usages.push(usage);
+          this.usagesByApiPath.set(key, usages);
+        }
+      }
+    }
+    return this.usagesByApiPath.get(`${convexDir}:${apiPath}`) ?? [];
+  }
+
+  /**
+   * Re-index a single file after it was created or changed
+   */
+  async updateFile(filePath: string): Promise<void> {
+    // Applied once the running build completes, which may have read the file before
+    if (!this.ready) {
+      this.pendingPaths.add(filePath);
+      return;
+    }
+    if (!(await this.isIndexable(filePath))) {
+      return;
+    }
+
+    try {
+      const stat = await fs.promises.stat(filePath);
+      this.files.set(filePath, await this.indexFile(filePath, stat.mtimeMs));
+      this.usagesByApiPath = null;
+      this.changeEmitter.fire();
+      this.scheduleSave();
+    } catch (error) {
+      console.error(`Error indexing file ${filePath}:`, error);
+    }
+  }
+
+  /**
+   * Drop a file from the index after it was deleted
+   */
+  removeFile(filePath: string): void {
+    if (!this.ready) {
+      this.pendingPaths.add(filePath);
+      return;
+    }
+    if (this.files.delete(filePath)) {
+      this.usagesByApiPath = null;
+      this.changeEmitter.fire();
+      this.scheduleSave();
+    }
+  }
+
+  dispose(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      void this.save();
+    }
+    if (activeIndex === this) {
+      setWorkspaceIndex(null);
+    }
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  /**
+   * Re-index or drop the files that changed while the index was being built
+   */
+  private async applyPendingPaths(): Promise<void> {
+    const filePaths = [...this.pendingPaths];
+    this.pendingPaths.clear();
+    for (const filePath of filePaths) {
+      if (fs.existsSync(filePath)) {
+        await this.updateFile(filePath);
+      } else {
+        this.removeFile(filePath);
+      }
+    }
+  }
+
+  /**
+   * Parse a file and extract its definitions and usages
+   */
+  private async indexFile(
+    filePath: string,
+    mtimeMs: number,
+  ): Promise<IndexedFile> {
+    const content = await fs.promises.readFile(filePath, "utf8");
+    const isBackend = await isConvexBackendFile(filePath);
+    const config = getConfig();
+
+    // Skip parsing files that cannot contain Convex functions or API references
+    const mayReferenceApi = config.apiImportPatterns.some((name) =>
+      content.includes(name),
+    );
+    if (!isBackend && !mayReferenceApi) {
+      return { mtimeMs, definitions: [], usages: [] };
+    }
+
+    const projectInfo = await getConvexProjectInfo(filePath, content);
+
+    const definitions = isBackend
+      ? await findConvexFunctionsInSource(
+          filePath,
+          parseSourceFile(filePath, content),
+        )
+      : [];
+    const usages = mayReferenceApi
+      ? findApiUsagesInSource(
+          filePath,
+          content,
+          config.apiImportPatterns,
+          isBackend,
+        )
+      : [];
+    usages.push(
+      ...findTextMentionsInSource(filePath, content, usages, isBackend),
+    );
+
+    return { mtimeMs, definitions, usages, convexDir: projectInfo?.convexDir };
+  }
+
+  /**
+   * Find all source files inside the search paths
+   */
+  private async findIndexableFiles(): Promise<string[]> {
+    const filePaths = new Set<string>();
+    const excludePattern = `{${getConfig().excludePatterns.join(",")}}`;
+
+    const searchPaths = (await getConvexProjects()).flatMap((projectInfo) =>
+      getSearchPaths(projectInfo, true),
+    );
+
+    for (const searchPath of new Set(searchPaths)) {
+      const files = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(searchPath, "**/*.{ts,tsx,js,jsx}"),
+        excludePattern,
+      );
+      files.forEach((file) => filePaths.add(file.fsPath));
+    }
+
+    return [...filePaths];
+  }
+
+  /**
+   * Check if a file from a watcher event belongs in the index
+   */
+  private async isIndexable(filePath: string): Promise<boolean> {
+    if (isExcludedPath(filePath)) {
+      return false;
+    }
+    const projects = await getConvexProjects();
+    return projects.some((projectInfo) =>
+      getSearchPaths(projectInfo, true).some((p) =>
+        isInsideDirectory(filePath, p),
+      ),
+    );
+  }
+
+  /**
+   * Settings the indexed data depends on
+   */
+  private async getConfigKey(): Promise<string> {
+    const projects = await getConvexProjects();
+    return JSON.stringify([
+      projects.map((p) => p.convexDir),
+      getAllWrappers(),
+      getConfig().apiImportPatterns,
+    ]);
+  }
+
+  private get indexFileUri(): vscode.Uri | undefined {
+    if (!this.storageUri || !getConfig().persistIndex) {
+      return undefined;
+    }
+    return vscode.Uri.joinPath(this.storageUri, INDEX_FILE_NAME);
+  }
+
+  /**
+   * Load the persisted index, if it matches the current version and settings
+   */
+  private async load(): Promise<PersistedIndex | null> {
+    const uri = this.indexFileUri;
+    if (!uri) {
+      return null;
+    }
+
+    try {
+      const content = await fs.promises.readFile(uri.fsPath, "utf8");
+      const persisted = JSON.parse(content) as PersistedIndex;
+      if (
+        persisted.version !== INDEX_VERSION ||
+        persisted.configKey !== (await this.getConfigKey())
+      ) {
+        return null;
+      }
+      return persisted;
+    } catch {
+      // No persisted index yet
+      return null;
+    }
+  }
+
+  /**
+   * Persist the index shortly after the last change
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    const uri = this.indexFileUri;
+    if (!uri || !this.storageUri) {
+      return;
+    }
+
+    try {
+      const persisted: PersistedIndex = {
+        version: INDEX_VERSION,
+        configKey: await this.getConfigKey(),
+        files: Object.fromEntries(this.files),
+      };
+      await fs.promises.mkdir(this.storageUri.fsPath, { recursive: true });
+      await fs.promises.writeFile(uri.fsPath, JSON.stringify(persisted));
+    } catch (error) {
+      console.error("Error saving Convex index:", error);
+    }
+  }
+}
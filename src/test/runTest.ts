@@ -0,0 +1,19 @@
+import * as path from "path";
+import { runTests } from "@vscode/test-electron";
+
+async function main() {
+  try {
+    // The folder containing the extension manifest package.json
+    const extensionDevelopmentPath = path.resolve(__dirname, "../../");
+
+    // The path to the test runner script
+    const extensionTestsPath = path.resolve(__dirname, "./suite/index");
+
+    await runTests({ extensionDevelopmentPath, extensionTestsPath });
+  } catch (error) {
+    console.error("Failed to run tests", error);
+    process.exit(1);
+  }
+}
+
+main();
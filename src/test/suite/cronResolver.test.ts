@@ -0,0 +1,78 @@
+import * as assert from "assert";
+import { parseSourceFile } from "../../resolver/functionDetector";
+import { parseCronJobs } from "../../resolver/cronResolver";
+
+const CRONS = `import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.interval("clear presence", { minutes: 5 }, internal.presence.clear);
+crons.interval("heartbeat", { seconds: 1 }, internal.presence.beat);
+crons.hourly("hourly stats", { minuteUTC: 15 }, internal.stats.hourly);
+crons.daily(
+  "send digest",
+  { hourUTC: 9, minuteUTC: 30 },
+  internal.emails.sendDigest,
+  { limit: 10 },
+);
+crons.weekly("weekly report", { dayOfWeek: "monday", hourUTC: 17, minuteUTC: 0 }, internal.reports.weekly);
+crons.monthly("invoices", { day: 1, hourUTC: 0, minuteUTC: 0 }, internal.billing.invoice);
+crons.cron("cleanup", "0 3 * * *", internal.cleanup.run);
+other.daily("not a cron", { hourUTC: 1, minuteUTC: 0 }, internal.x.y);
+
+export default crons;
+`;
+
+suite("cronResolver", () => {
+  suite("parseCronJobs", () => {
+    const jobs = parseCronJobs(
+      parseSourceFile("/project/convex/crons.ts", CRONS),
+    );
+
+    test("lists the jobs of the cronJobs() object", () => {
+      assert.deepStrictEqual(
+        jobs.map((job) => [job.name, job.method, job.line]),
+        [
+          ["clear presence", "interval", 5],
+          ["heartbeat", "interval", 6],
+          ["hourly stats", "hourly", 7],
+          ["send digest", "daily", 8],
+          ["weekly report", "weekly", 14],
+          ["invoices", "monthly", 15],
+          ["cleanup", "cron", 16],
+        ],
+      );
+    });
+
+    test("describes schedules in words", () => {
+      assert.deepStrictEqual(
+        jobs.map((job) => job.schedule),
+        [
+          "every 5 minutes",
+          "every second",
+          "every hour at :15 UTC",
+          "every day at 09:30 UTC",
+          "every Monday at 17:00 UTC",
+          "on day 1 of every month at 00:00 UTC",
+          'cron "0 3 * * *" (UTC)',
+        ],
+      );
+    });
+
+    test("resolves the scheduled functions", () => {
+      assert.deepStrictEqual(
+        jobs.map((job) => job.apiPath),
+        [
+          "internal.presence.clear",
+          "internal.presence.beat",
+          "internal.stats.hourly",
+          "internal.emails.sendDigest",
+          "internal.reports.weekly",
+          "internal.billing.invoice",
+          "internal.cleanup.run",
+        ],
+      );
+    });
+  });
+});
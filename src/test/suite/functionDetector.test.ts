@@ -0,0 +1,172 @@
+import * as assert from "assert";
+import { DEFAULT_CONVEX_WRAPPERS } from "../../config";
+import {
+  getExportedNames,
+  getFunctionType,
+  isOnFunctionReference,
+  parseConvexFunctions,
+  parseSourceFile,
+} from "../../resolver/functionDetector";
+
+function parse(content: string, fileName = "/project/convex/messages.ts") {
+  const sourceFile = parseSourceFile(fileName, content);
+  const functions = parseConvexFunctions(sourceFile, [
+    ...DEFAULT_CONVEX_WRAPPERS,
+    "authedQuery",
+  ]);
+  return { sourceFile, functions };
+}
+
+/** Offset of the nth occurrence of a search string, plus a delta */
+function offsetOf(content: string, search: string, nth = 0, delta = 0): number {
+  let index = -1;
+  for (let i = 0; i <= nth; i++) {
+    index = content.indexOf(search, index + 1);
+  }
+  assert.notStrictEqual(index, -1, `"${search}" not found`);
+  return index + delta;
+}
+
+suite("functionDetector", () => {
+  suite("parseConvexFunctions", () => {
+    test("finds exported wrapper calls", () => {
+      const { functions } = parse(`
+        import { query, mutation } from "./_generated/server";
+        export const list = query({ handler: async () => [] });
+        export const send = mutation({ handler: async () => {} });
+        export const notConvex = () => 1;
+      `);
+      assert.deepStrictEqual(
+        functions.map((f) => [f.name, f.wrapper]),
+        [
+          ["list", "query"],
+          ["send", "mutation"],
+        ],
+      );
+    });
+
+    test("resolves aliased and namespace imports", () => {
+      const { functions } = parse(`
+        import { query as q } from "./_generated/server";
+        import * as server from "./_generated/server";
+        export const a = q({ handler: async () => 1 });
+        export const b = server.internalMutation({ handler: async () => 1 });
+        export const c = (authedQuery({ handler: async () => 1 }) as any);
+      `);
+      assert.deepStrictEqual(
+        functions.map((f) => [f.name, f.wrapper]),
+        [
+          ["a", "query"],
+          ["b", "internalMutation"],
+          ["c", "authedQuery"],
+        ],
+      );
+    });
+
+    test("follows export lists and default exports", () => {
+      const content = `
+        import { query, action } from "./_generated/server";
+        const list = query({ handler: async () => [] });
+        const run = action({ handler: async () => {} });
+        export { list, run as start };
+        export default list;
+      `;
+      const { functions } = parse(content);
+      assert.deepStrictEqual(
+        functions.map((f) => [f.name, f.localName]),
+        [
+          ["list", "list"],
+          ["start", "run"],
+          ["default", "list"],
+        ],
+      );
+      const list = functions[0];
+      assert.strictEqual(list.nameStart, offsetOf(content, "list ="));
+      assert.strictEqual(list.exportNameStart, offsetOf(content, "list,"));
+      const start = functions[1];
+      assert.strictEqual(start.nameStart, offsetOf(content, "start"));
+    });
+
+    test("ignores re-exports and non-wrapper calls", () => {
+      const { functions } = parse(`
+        export { list } from "./other";
+        export const helper = someOtherCall({});
+      `);
+      assert.deepStrictEqual(functions, []);
+    });
+  });
+
+  suite("isOnFunctionReference", () => {
+    const content = `
+      import { query } from "./_generated/server";
+      const list = query({
+        handler: async (ctx, { list: limit }) => {
+          const other = { list: 1 };
+          return other.list + limit;
+        },
+      });
+      export const count = query({
+        handler: async () => {
+          const list = [1, 2];
+          return list.length;
+        },
+      });
+      export const first = query({ handler: async () => list });
+      export { list as messages };
+    `;
+    const { sourceFile, functions } = parse(content);
+    const messages = functions.find((f) => f.name === "messages")!;
+    const isOn = (offset: number) =>
+      isOnFunctionReference(sourceFile, messages, offset);
+
+    test("matches the variable declaration and its uses", () => {
+      assert.ok(isOn(offsetOf(content, "list = query")));
+      assert.ok(isOn(offsetOf(content, "=> list", 0, 3)));
+      assert.ok(isOn(offsetOf(content, "list as", 0, 2)));
+      assert.ok(isOn(offsetOf(content, "messages }")));
+    });
+
+    test("ignores properties and shadowing declarations", () => {
+      assert.ok(!isOn(offsetOf(content, "list: limit")));
+      assert.ok(!isOn(offsetOf(content, "list: 1")));
+      assert.ok(!isOn(offsetOf(content, "other.list", 0, 7)));
+      assert.ok(!isOn(offsetOf(content, "list = [1")));
+      assert.ok(!isOn(offsetOf(content, "list.length")));
+    });
+  });
+
+  suite("getExportedNames", () => {
+    test("lists value exports of every kind", () => {
+      const sourceFile = parseSourceFile(
+        "/project/convex/lib.ts",
+        `
+          export const a = 1, b = 2;
+          export function helper() {}
+          const c = 3;
+          export { c as d };
+          export * from "./other";
+          export default a;
+        `,
+      );
+      assert.deepStrictEqual(getExportedNames(sourceFile), [
+        "a",
+        "b",
+        "helper",
+        "d",
+        "*",
+        "default",
+      ]);
+    });
+  });
+
+  suite("getFunctionType", () => {
+    test("derives the type from the wrapper name", () => {
+      assert.strictEqual(getFunctionType("query"), "query");
+      assert.strictEqual(getFunctionType("internalAction"), "internalAction");
+      assert.strictEqual(getFunctionType("httpAction"), "httpAction");
+      assert.strictEqual(getFunctionType("authedMutation"), "mutation");
+      assert.strictEqual(getFunctionType("zodQuery"), "query");
+      assert.strictEqual(getFunctionType("somethingElse"), "unknown");
+    });
+  });
+});
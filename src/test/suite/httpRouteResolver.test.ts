@@ -0,0 +1,175 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as ts from "typescript";
+import type { ConvexHttpRoute } from "../../types";
+import { parseSourceFile } from "../../resolver/functionDetector";
+import {
+  getUrlPath,
+  matchHttpRoutes,
+  parseHttpRoutes,
+} from "../../resolver/httpRouteResolver";
+
+/** Get the URL path of the first string or template literal in an expression */
+function urlPathOf(expression: string) {
+  const sourceFile = parseSourceFile("/project/src/api.ts", expression);
+  let literal: ts.StringLiteralLike | ts.TemplateExpression | undefined;
+  const visit = (node: ts.Node) => {
+    if (
+      !literal &&
+      (ts.isStringLiteralLike(node) || ts.isTemplateExpression(node))
+    ) {
+      literal = node;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  assert.ok(literal, "no literal");
+  return getUrlPath(literal);
+}
+
+function route(method: string, routePath: string, isPrefix = false) {
+  return {
+    method,
+    path: routePath,
+    isPrefix,
+    filePath: "/project/convex/http.ts",
+    line: 0,
+    column: 0,
+  } satisfies ConvexHttpRoute;
+}
+
+suite("httpRouteResolver", () => {
+  suite("parseHttpRoutes", () => {
+    let convexDir: string;
+
+    suiteSetup(() => {
+      convexDir = fs.mkdtempSync(path.join(os.tmpdir(), "convex-navigator-"));
+      fs.writeFileSync(
+        path.join(convexDir, "webhooks.ts"),
+        [
+          `import { httpAction } from "./_generated/server";`,
+          ``,
+          `export const stripe = httpAction(async () => new Response());`,
+        ].join("\n"),
+      );
+    });
+
+    suiteTeardown(() => {
+      fs.rmSync(convexDir, { recursive: true, force: true });
+    });
+
+    test("parses exact and prefix routes with their handlers", () => {
+      const routerPath = path.join(convexDir, "http.ts");
+      const content = [
+        `import { httpRouter } from "convex/server";`,
+        `import { httpAction } from "./_generated/server";`,
+        `import { stripe as stripeWebhook } from "./webhooks";`,
+        `const health = httpAction(async () => new Response("ok"));`,
+        `const http = httpRouter();`,
+        `http.route({ path: "/health", method: "get", handler: health });`,
+        `http.route({ path: "/stripe", method: "POST", handler: stripeWebhook });`,
+        `http.route({`,
+        `  pathPrefix: "/files/",`,
+        `  method: "GET",`,
+        `  handler: httpAction(async () => new Response()),`,
+        `});`,
+        `http.route({ method: "GET", handler: health });`,
+        `export default http;`,
+      ].join("\n");
+      const routes = parseHttpRoutes(
+        parseSourceFile(routerPath, content),
+        convexDir,
+      );
+
+      assert.deepStrictEqual(
+        routes.map((r) => [r.method, r.path, r.isPrefix, r.line]),
+        [
+          ["GET", "/health", false, 5],
+          ["POST", "/stripe", false, 6],
+          ["GET", "/files/", true, 7],
+        ],
+      );
+      assert.deepStrictEqual(routes[0].handler, {
+        name: "health",
+        filePath: routerPath,
+        line: 3,
+        column: 6,
+      });
+      assert.deepStrictEqual(routes[1].handler, {
+        name: "stripe",
+        filePath: path.join(convexDir, "webhooks.ts"),
+        line: 2,
+        column: 13,
+      });
+      assert.deepStrictEqual(routes[2].handler, {
+        name: undefined,
+        filePath: routerPath,
+        line: 10,
+        column: 11,
+      });
+    });
+  });
+
+  suite("getUrlPath", () => {
+    test("extracts the path of literal and interpolated URLs", () => {
+      assert.deepStrictEqual(urlPathOf('"/api/webhook"'), {
+        path: "/api/webhook",
+        isPartial: false,
+      });
+      assert.deepStrictEqual(urlPathOf("`${siteUrl}/api/webhook?token=1`"), {
+        path: "/api/webhook",
+        isPartial: false,
+      });
+      assert.deepStrictEqual(urlPathOf('"https://x.convex.site/api/hook#a"'), {
+        path: "/api/hook",
+        isPartial: false,
+      });
+    });
+
+    test("cuts paths at interpolations", () => {
+      assert.deepStrictEqual(urlPathOf("`${siteUrl}/files/${id}`"), {
+        path: "/files/",
+        isPartial: true,
+      });
+    });
+
+    test("ignores text that is not a URL path", () => {
+      assert.strictEqual(urlPathOf('"api/webhook"'), undefined);
+      assert.strictEqual(urlPathOf('"/not a path"'), undefined);
+    });
+  });
+
+  suite("matchHttpRoutes", () => {
+    const routes = [
+      route("POST", "/files/upload"),
+      route("GET", "/files/", true),
+      route("GET", "/files/images/", true),
+      route("GET", "/health"),
+    ];
+
+    test("prefers exact routes", () => {
+      assert.deepStrictEqual(matchHttpRoutes(routes, "/files/upload"), [
+        routes[0],
+      ]);
+      assert.deepStrictEqual(matchHttpRoutes(routes, "/health"), [routes[3]]);
+    });
+
+    test("picks the longest matching prefix", () => {
+      assert.deepStrictEqual(matchHttpRoutes(routes, "/files/images/a.png"), [
+        routes[2],
+      ]);
+      assert.deepStrictEqual(matchHttpRoutes(routes, "/files/doc.pdf"), [
+        routes[1],
+      ]);
+    });
+
+    test("only matches prefixes for partial paths", () => {
+      assert.deepStrictEqual(matchHttpRoutes(routes, "/files/upload", true), [
+        routes[1],
+      ]);
+      assert.deepStrictEqual(matchHttpRoutes(routes, "/unknown"), []);
+    });
+  });
+});
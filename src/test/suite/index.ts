@@ -0,0 +1,30 @@
+import * as path from "path";
+import * as fs from "fs";
+import Mocha from "mocha";
+
+/**
+ * Run every compiled *.test.js file in this folder inside the extension host
+ */
+export function run(): Promise<void> {
+  const mocha = new Mocha({ ui: "tdd", color: true });
+
+  for (const file of fs.readdirSync(__dirname)) {
+    if (file.endsWith(".test.js")) {
+      mocha.addFile(path.resolve(__dirname, file));
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    try {
+      mocha.run((failures) => {
+        if (failures > 0) {
+          reject(new Error(`${failures} tests failed.`));
+        } else {
+          resolve();
+        }
+      });
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
@@ -0,0 +1,99 @@
+import * as assert from "assert";
+import * as path from "path";
+import { fromApiPath, toApiPath } from "../../config";
+import {
+  globToRegExp,
+  isInsideDirectory,
+  isInternalFunctionType,
+} from "../../resolver/pathResolver";
+
+const CONVEX_DIR = path.join(path.sep, "project", "convex");
+
+suite("pathResolver", () => {
+  suite("isInsideDirectory", () => {
+    test("accepts the directory and its descendants", () => {
+      assert.ok(isInsideDirectory(CONVEX_DIR, CONVEX_DIR));
+      assert.ok(
+        isInsideDirectory(path.join(CONVEX_DIR, "a", "b.ts"), CONVEX_DIR),
+      );
+    });
+
+    test("rejects siblings sharing a prefix", () => {
+      assert.ok(
+        !isInsideDirectory(
+          path.join(path.sep, "project", "convex-helpers", "a.ts"),
+          CONVEX_DIR,
+        ),
+      );
+      assert.ok(
+        !isInsideDirectory(path.join(path.sep, "project", "a.ts"), CONVEX_DIR),
+      );
+    });
+  });
+
+  suite("globToRegExp", () => {
+    const matches = (pattern: string, filePath: string) =>
+      globToRegExp(pattern).test(filePath);
+
+    test("matches any number of directories with **", () => {
+      assert.ok(matches("**/node_modules/**", "/app/node_modules/x/y.ts"));
+      assert.ok(matches("**/_generated/**", "/app/convex/_generated/api.d.ts"));
+      assert.ok(!matches("**/_generated/**", "/app/convex/generated/api.ts"));
+    });
+
+    test("keeps * and ? within one segment", () => {
+      assert.ok(matches("*.test.ts", "/app/src/contacts.test.ts"));
+      assert.ok(!matches("src/*.ts", "/app/src/lib/a.ts"));
+      assert.ok(matches("v?.ts", "/app/v1.ts"));
+      assert.ok(!matches("v?.ts", "/app/v10.ts"));
+    });
+
+    test("supports alternatives and escapes other characters", () => {
+      assert.ok(matches("**/{dist,out}/**", "/app/out/extension.js"));
+      assert.ok(matches("**/{dist,out}/**", "/app/dist/index.js"));
+      assert.ok(!matches("*.ts", "/app/contacts_ts"));
+    });
+  });
+
+  suite("API paths", () => {
+    test("builds the module path from the file path", () => {
+      assert.strictEqual(
+        toApiPath(
+          path.join(CONVEX_DIR, "domains", "contacts.ts"),
+          "createContact",
+          CONVEX_DIR,
+        ),
+        "domains.contacts.createContact",
+      );
+    });
+
+    test("splits api, internal and component paths", () => {
+      assert.deepStrictEqual(fromApiPath("api.domains.contacts.create"), {
+        componentName: undefined,
+        modulePath: "domains/contacts",
+        functionName: "create",
+      });
+      assert.deepStrictEqual(fromApiPath("internal.emails.send"), {
+        componentName: undefined,
+        modulePath: "emails",
+        functionName: "send",
+      });
+      assert.deepStrictEqual(
+        fromApiPath("components.rateLimiter.lib.rateLimit"),
+        {
+          componentName: "rateLimiter",
+          modulePath: "lib",
+          functionName: "rateLimit",
+        },
+      );
+      assert.strictEqual(fromApiPath("api.contacts"), null);
+    });
+
+    test("uses the internal object for internal functions only", () => {
+      assert.ok(isInternalFunctionType("internalQuery"));
+      assert.ok(isInternalFunctionType("internalAction"));
+      assert.ok(!isInternalFunctionType("mutation"));
+      assert.ok(!isInternalFunctionType("httpAction"));
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { parseSourceFile } from "../../resolver/functionDetector";
+import {
+  classifyUsage,
+  findApiReferences,
+  findApiUsagesInSource,
+  findTextMentionsInSource,
+} from "../../resolver/referenceResolver";
+
+const API_IMPORT = `import { api, internal } from "../convex/_generated/api";\n`;
+
+function references(content: string, fileName = "/project/src/App.tsx") {
+  const sourceFile = parseSourceFile(fileName, content);
+  return findApiReferences(sourceFile, ["api", "internal"]).map((r) => ({
+    apiPath: r.apiPath,
+    text: content.slice(r.start, r.end),
+    hookUsed: r.hookUsed,
+    kind: r.kind,
+  }));
+}
+
+function apiPaths(content: string): string[] {
+  return references(content).map((r) => r.apiPath);
+}
+
+suite("referenceResolver", () => {
+  suite("findApiReferences", () => {
+    test("finds literal API paths with the outermost expression", () => {
+      const content = `${API_IMPORT}
+        const list = useQuery(api.domains.contacts.list);
+        await ctx.runMutation(internal.emails.send, {});
+      `;
+      assert.deepStrictEqual(references(content), [
+        {
+          apiPath: "api.domains.contacts.list",
+          text: "api.domains.contacts.list",
+          hookUsed: "useQuery",
+          kind: "reactive",
+        },
+        {
+          apiPath: "internal.emails.send",
+          text: "internal.emails.send",
+          hookUsed: "ctx.runMutation",
+          kind: "server",
+        },
+      ]);
+    });
+
+    test("follows module aliases and destructuring", () => {
+      assert.deepStrictEqual(
+        apiPaths(`${API_IMPORT}
+          const contactsApi = api.domains.contacts;
+          useQuery(contactsApi.list);
+          const { createContact, remove: removeContact } = contactsApi;
+          useMutation(createContact);
+          useMutation(removeContact);
+        `),
+        [
+          "api.domains.contacts",
+          "api.domains.contacts.list",
+          "api.domains.contacts",
+          "api.domains.contacts.createContact",
+          "api.domains.contacts.remove",
+        ],
+      );
+    });
+
+    test("follows renamed imports of the generated API", () => {
+      assert.deepStrictEqual(
+        apiPaths(`
+          import { api as convexApi } from "@backend/_generated/api.js";
+          useQuery(convexApi.messages.list);
+        `),
+        ["api.messages.list"],
+      );
+    });
+
+    test("ignores api objects imported from other modules", () => {
+      assert.deepStrictEqual(
+        apiPaths(`
+          import { api } from "../utils/trpc";
+          api.messages.list.useQuery();
+        `),
+        [],
+      );
+    });
+
+    test("resolves element access with string literals and constants", () => {
+      assert.deepStrictEqual(
+        apiPaths(`${API_IMPORT}
+          const moduleName = "contacts";
+          let mutableName = "messages";
+          useQuery(api.domains["contacts"].list);
+          useQuery(api.domains[moduleName].list);
+          useQuery(api.domains[mutableName].list);
+          function load(name: string) {
+            return useQuery(api.domains[name].list);
+          }
+        `),
+        [
+          "api.domains.contacts.list",
+          "api.domains.contacts.list",
+          "api.domains",
+          "api.domains",
+        ],
+      );
+    });
+
+    test("detects cron jobs scheduling a function", () => {
+      const content = `${API_IMPORT}
+        const crons = cronJobs();
+        crons.daily("digest", { hourUTC: 9, minuteUTC: 0 }, internal.emails.digest);
+      `;
+      assert.deepStrictEqual(references(content), [
+        {
+          apiPath: "internal.emails.digest",
+          text: "internal.emails.digest",
+          hookUsed: "crons.daily",
+          kind: "cron",
+        },
+      ]);
+    });
+  });
+
+  suite("call kinds", () => {
+    let dir: string;
+
+    suiteSetup(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "convex-navigator-"));
+      fs.mkdirSync(path.join(dir, "lib"));
+      fs.writeFileSync(
+        path.join(dir, "lib", "convex.ts"),
+        [
+          `import { ConvexHttpClient } from "convex/browser";`,
+          `const httpClient = new ConvexHttpClient(process.env.CONVEX_URL!);`,
+          `export const client = httpClient;`,
+          `export const notAClient = { query: () => null };`,
+          `export { httpClient as convex };`,
+        ].join("\n"),
+      );
+    });
+
+    suiteTeardown(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    function callKinds(content: string) {
+      const sourceFile = parseSourceFile(path.join(dir, "page.tsx"), content);
+      return findApiReferences(sourceFile, ["api", "internal"]).map((r) => [
+        r.hookUsed,
+        r.kind,
+      ]);
+    }
+
+    test("classifies hooks and server helpers", () => {
+      assert.deepStrictEqual(
+        callKinds(`${API_IMPORT}
+          useQuery(api.messages.list);
+          await fetchQuery(api.messages.list);
+          await ctx.scheduler.runAfter(0, internal.emails.send, {});
+          const plain = api.messages.list;
+        `),
+        [
+          ["useQuery", "reactive"],
+          ["fetchQuery", "serverRendered"],
+          ["ctx.scheduler.runAfter", "scheduler"],
+          [undefined, undefined],
+        ],
+      );
+    });
+
+    test("follows HTTP clients created or imported from other modules", () => {
+      assert.deepStrictEqual(
+        callKinds(`${API_IMPORT}
+          import { client, convex, notAClient } from "./lib/convex";
+          import { convexClient } from "@/lib/convex";
+          const local = new ConvexHttpClient(url);
+          await local.query(api.messages.list);
+          await client.query(api.messages.list);
+          await convex.mutation(api.messages.send);
+          await convexClient.action(api.messages.run);
+          await notAClient.query(api.messages.list);
+          async function load(http: ConvexHttpClient) {
+            return http.query(api.messages.list);
+          }
+        `),
+        [
+          ["local.query", "httpClient"],
+          ["client.query", "httpClient"],
+          ["convex.mutation", "httpClient"],
+          ["convexClient.action", "httpClient"],
+          [undefined, undefined],
+          ["http.query", "httpClient"],
+        ],
+      );
+    });
+
+    test("only treats optimistic update stores as local stores", () => {
+      assert.deepStrictEqual(
+        callKinds(`${API_IMPORT}
+          useMutation(api.messages.send).withOptimisticUpdate((store, args) => {
+            store.setQuery(api.messages.list, {}, []);
+          });
+          const update: OptimisticUpdate<{}> = (localStore) => {
+            localStore.getQuery(api.messages.list);
+          };
+          function typed(localStore: OptimisticLocalStore) {
+            localStore.getAllQueries(api.messages.list);
+          }
+          function unrelated(localStore: Cache) {
+            localStore.getQuery(api.messages.list);
+          }
+          localStore.setQuery(api.messages.list, {}, []);
+        `),
+        [
+          ["useMutation", "reactive"],
+          ["store.setQuery", "optimistic"],
+          ["localStore.getQuery", "optimistic"],
+          ["localStore.getAllQueries", "optimistic"],
+          [undefined, undefined],
+          [undefined, undefined],
+        ],
+      );
+    });
+  });
+
+  suite("findApiUsagesInSource", () => {
+    test("reports positions and classifies test files", () => {
+      const content = `${API_IMPORT}export const x = api.messages.list;\n`;
+      const [usage] = findApiUsagesInSource(
+        "/project/src/messages.test.ts",
+        content,
+        ["api", "internal"],
+        false,
+      );
+      assert.strictEqual(usage.apiPath, "api.messages.list");
+      assert.strictEqual(usage.line, 1);
+      assert.strictEqual(usage.column, 17);
+      assert.strictEqual(usage.length, "api.messages.list".length);
+      assert.strictEqual(usage.kind, "test");
+    });
+  });
+
+  suite("findTextMentionsInSource", () => {
+    test("reports unresolved API paths in comments and strings", () => {
+      const filePath = "/project/src/App.tsx";
+      const content = `${API_IMPORT}// Calls api.messages.send
+useQuery(api.messages.list);
+const name = "internal.emails.send";
+const other = config.api.messages.list;
+`;
+      const parsed = findApiUsagesInSource(
+        filePath,
+        content,
+        ["api", "internal"],
+        false,
+      );
+      const mentions = findTextMentionsInSource(
+        filePath,
+        content,
+        parsed,
+        false,
+      );
+      assert.deepStrictEqual(
+        mentions.map((m) => [m.apiPath, m.line, m.column, m.kind]),
+        [
+          ["api.messages.send", 1, 9, "comment"],
+          ["internal.emails.send", 3, 14, "comment"],
+        ],
+      );
+    });
+  });
+
+  suite("classifyUsage", () => {
+    test("falls back to a plain reference", () => {
+      assert.strictEqual(classifyUsage("/src/a.ts", undefined), "reference");
+      assert.strictEqual(classifyUsage("/src/a.ts", "reactive"), "reactive");
+      assert.strictEqual(
+        classifyUsage("/src/__tests__/a.ts", "reactive"),
+        "test",
+      );
+    });
+  });
+});
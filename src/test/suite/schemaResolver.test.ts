@@ -0,0 +1,168 @@
+import * as assert from "assert";
+import { parseSourceFile } from "../../resolver/functionDetector";
+import {
+  findIndexReferenceAtOffset,
+  findIndexReferences,
+  findTableReferences,
+  parseSchemaTables,
+} from "../../resolver/schemaResolver";
+
+const SCHEMA = `import { defineSchema, defineTable } from "convex/server";
+import { v } from "convex/values";
+const tags = defineTable({ name: v.string() });
+const contactsTable = defineTable({
+  email: v.string(),
+  tagIds: v.optional(v.array(v.id("tags"))),
+})
+  .index("by_email", ["email"])
+  .searchIndex("search_email", { searchField: "email", filterFields: ["tagIds"] });
+export default defineSchema({
+  contacts: contactsTable,
+  tags,
+  documents: defineTable({ embedding: v.array(v.float64()) })
+    .vectorIndex("by_embedding", { vectorField: "embedding", dimensions: 1536 }),
+});
+`;
+
+function parseSchema() {
+  return parseSchemaTables(
+    parseSourceFile("/project/convex/schema.ts", SCHEMA),
+  );
+}
+
+/** Table names referenced in a source, with the text at their offsets */
+function tableReferences(content: string): string[] {
+  const sourceFile = parseSourceFile("/project/convex/contacts.ts", content);
+  return findTableReferences(sourceFile).map((reference) => {
+    assert.strictEqual(
+      content.slice(reference.start, reference.end),
+      reference.tableName,
+    );
+    return reference.tableName;
+  });
+}
+
+suite("schemaResolver", () => {
+  suite("parseSchemaTables", () => {
+    test("finds inline, constant and shorthand tables", () => {
+      const tables = parseSchema();
+      assert.deepStrictEqual(
+        tables.map((t) => [t.name, t.line, t.column, t.parsed]),
+        [
+          ["contacts", 10, 2, true],
+          ["tags", 11, 2, true],
+          ["documents", 12, 2, true],
+        ],
+      );
+    });
+
+    test("renders the document fields", () => {
+      assert.deepStrictEqual(
+        parseSchema().map((t) => t.fields),
+        [
+          '{ email: string; tagIds?: Id<"tags">[] }',
+          "{ name: string }",
+          "{ embedding: number[] }",
+        ],
+      );
+    });
+
+    test("returns nothing without defineSchema", () => {
+      const sourceFile = parseSourceFile(
+        "/project/convex/schema.ts",
+        `export const tables = { contacts: defineTable({}) };`,
+      );
+      assert.deepStrictEqual(parseSchemaTables(sourceFile), []);
+    });
+  });
+
+  suite("index definitions", () => {
+    test("parses index, search index and vector index fields", () => {
+      assert.deepStrictEqual(
+        parseSchema().map((t) =>
+          t.indexes.map((i) => [i.name, i.kind, i.fields, i.line, i.column]),
+        ),
+        [
+          [
+            ["by_email", "index", ["email"], 7, 10],
+            ["search_email", "searchIndex", ["email", "tagIds"], 8, 16],
+          ],
+          [],
+          [["by_embedding", "vectorIndex", ["embedding"], 13, 18]],
+        ],
+      );
+    });
+  });
+
+  suite("findIndexReferences", () => {
+    const content = `
+      const byEmail = await ctx.db
+        .query("contacts")
+        .withIndex("by_email", (q) => q.eq("email", email))
+        .unique();
+      const found = await ctx.db
+        .query("contacts")
+        .withSearchIndex("search_email", (q) => q.search("email", text));
+      const similar = await ctx.vectorSearch("documents", "by_embedding", {
+        vector,
+      });
+      const query = ctx.db.query("contacts");
+      const unknown = await query.withIndex("by_name").collect();
+    `;
+    const sourceFile = parseSourceFile("/project/convex/contacts.ts", content);
+
+    test("finds index names with their table and kind", () => {
+      assert.deepStrictEqual(
+        findIndexReferences(sourceFile).map((r) => [
+          r.tableName,
+          r.indexName,
+          r.kind,
+          content.slice(r.start, r.end),
+        ]),
+        [
+          ["contacts", "by_email", "index", "by_email"],
+          ["contacts", "search_email", "searchIndex", "search_email"],
+          ["documents", "by_embedding", "vectorIndex", "by_embedding"],
+        ],
+      );
+    });
+
+    test("finds the index name at an offset", () => {
+      const offset = content.indexOf("search_email") + 3;
+      assert.strictEqual(
+        findIndexReferenceAtOffset(sourceFile, offset)?.indexName,
+        "search_email",
+      );
+      assert.strictEqual(
+        findIndexReferenceAtOffset(sourceFile, content.indexOf("unique")),
+        null,
+      );
+    });
+  });
+
+  suite("findTableReferences", () => {
+    test("finds table names passed to ctx.db, v.id and Id types", () => {
+      assert.deepStrictEqual(
+        tableReferences(`
+          const contacts = await ctx.db.query("contacts").collect();
+          await ctx.db.insert("messages", { body });
+          const tagId = v.id("tags");
+          type ContactId = Id<"contacts">;
+          type Message = Doc<"messages">;
+        `),
+        ["contacts", "messages", "tags", "contacts", "messages"],
+      );
+    });
+
+    test("ignores other string literals", () => {
+      assert.deepStrictEqual(
+        tableReferences(`
+          console.log("contacts");
+          const field = doc.get("contacts");
+          await ctx.db.patch(id, { status: "tags" });
+        `),
+        [],
+      );
+    });
+  });
+});
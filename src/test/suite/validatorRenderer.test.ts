@@ -0,0 +1,91 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as ts from "typescript";
+import { parseSourceFile } from "../../resolver/functionDetector";
+import { renderValidator } from "../../resolver/validatorRenderer";
+
+/** Render the initializer of `const args = ...` in a file */
+function renderArgs(filePath: string, content: string): string {
+  const sourceFile = parseSourceFile(filePath, content);
+  let initializer: ts.Expression | undefined;
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isVariableDeclaration(node) &&
+      node.name.getText(sourceFile) === "args"
+    ) {
+      initializer = node.initializer;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  assert.ok(initializer, "no args declaration");
+  return renderValidator(initializer, sourceFile);
+}
+
+suite("validatorRenderer", () => {
+  let dir: string;
+
+  suiteSetup(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "convex-navigator-"));
+  });
+
+  suiteTeardown(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("renders validators as TypeScript types", () => {
+    assert.strictEqual(
+      renderArgs(
+        path.join(dir, "contacts.ts"),
+        `const args = {
+          name: v.string(),
+          tags: v.optional(v.array(v.id("tags"))),
+          status: v.union(v.literal("active"), v.null()),
+        };`,
+      ),
+      [
+        "{",
+        "  name: string;",
+        '  tags?: Id<"tags">[];',
+        '  status: "active" | null;',
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("follows constants, spreads and relative imports", () => {
+    fs.writeFileSync(
+      path.join(dir, "fields.ts"),
+      `export const fields = { email: v.string() };`,
+    );
+    assert.strictEqual(
+      renderArgs(
+        path.join(dir, "users.ts"),
+        `import { fields } from "./fields";
+        const id = v.id("users");
+        const args = { ...fields, id };`,
+      ),
+      '{ email: string; id: Id<"users"> }',
+    );
+  });
+
+  test("stops at modules importing each other", () => {
+    fs.writeFileSync(
+      path.join(dir, "a.ts"),
+      `import { shared } from "./b";\nexport const args = { value: shared };`,
+    );
+    fs.writeFileSync(
+      path.join(dir, "b.ts"),
+      `import { shared } from "./a";\nexport { shared };`,
+    );
+    assert.strictEqual(
+      renderArgs(
+        path.join(dir, "a.ts"),
+        fs.readFileSync(path.join(dir, "a.ts"), "utf8"),
+      ),
+      "{ value: shared }",
+    );
+  });
+});
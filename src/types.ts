@@ -10,10 +10,22 @@ export interface ConvexNavigatorConfig {
   frontendPaths: string[];
   /** Custom function wrapper names to detect as Convex functions */
   customWrappers: string[];
+  /** Wrapper names that require an authenticated user (e.g., "authedQuery") */
+  authenticatedWrappers: string[];
   /** API object names to search for */
   apiImportPatterns: string[];
   /** Glob patterns to exclude from search */
   excludePatterns: string[];
+  /** Persist the workspace index between sessions */
+  persistIndex: boolean;
+  /** Show usage counts above Convex function exports */
+  enableCodeLens: boolean;
+  /** Report exported Convex functions that are never used */
+  unusedFunctionDiagnostics: boolean;
+  /** Function names or dotted paths (with "*" wildcards) to skip in unused analysis */
+  unusedExcludePatterns: string[];
+  /** Warn when the generated API is out of date with the convex directory */
+  codegenCheck: boolean;
 }
 
 /**
@@ -46,10 +58,28 @@ export type ConvexFunctionType =
   | "internalQuery"
   | "internalMutation"
   | "internalAction"
+  | "httpAction"
   | "unknown";
 
 /**
- * Represents a usage of a Convex function in frontend code
+ * How a public Convex function checks that the caller is authenticated
+ *   - authenticatedWrapper: defined with a wrapper listed in authenticatedWrappers
+ *   - identityCheck: its handler calls ctx.auth.getUserIdentity()
+ *   - unprotected: neither
+ */
+export type ConvexAuthStatus =
+  "authenticatedWrapper" | "identityCheck" | "unprotected";
+
+/**
+ * A public Convex function with its authentication status
+ */
+export interface ConvexAuthAuditEntry {
+  definition: ConvexFunctionDefinition;
+  status: ConvexAuthStatus;
+}
+
+/**
+ * Represents a usage of a Convex function in frontend or server-side code
  */
 export interface ConvexFunctionUsage {
   /** The full API path used (e.g., "api.domains.contacts.createContact") */
@@ -60,12 +90,41 @@ export interface ConvexFunctionUsage {
   line: number;
   /** Column where the usage starts */
   column: number;
+  /** Length of the referencing expression (e.g., "contactsApi.list") */
+  length: number;
   /** The full line of code containing the usage */
   lineText: string;
-  /** The hook or method used (e.g., "useMutation", "useQuery") */
+  /** The hook or method used (e.g., "useMutation", "fetchQuery", "client.query") */
   hookUsed?: string;
+  /** How the function is called at this site (e.g., "reactive" for useQuery) */
+  kind: UsageKind;
+  /** Whether the usage is in server-side code inside the convex directory */
+  isServerSide: boolean;
 }
 
+/**
+ * How a usage calls a Convex function
+ *   - reactive: React hooks and query options (useQuery, convexQuery)
+ *   - serverRendered: Next.js server helpers (fetchQuery, preloadQuery)
+ *   - httpClient: one-off calls on a ConvexHttpClient (client.query)
+ *   - optimistic: local store reads and writes in withOptimisticUpdate
+ *   - server / scheduler / cron: ctx.run*, ctx.scheduler.* and crons.ts jobs
+ *   - test: any usage in a test file
+ *   - reference: any other use (imports, variables, props)
+ *   - comment: text matches the parser does not confirm (comments, strings)
+ */
+export type UsageKind =
+  | "reactive"
+  | "serverRendered"
+  | "httpClient"
+  | "optimistic"
+  | "server"
+  | "scheduler"
+  | "cron"
+  | "test"
+  | "reference"
+  | "comment";
+
 /**
  * Result of searching for Convex function usages
  */
@@ -98,6 +157,108 @@ export interface ConvexProjectInfo {
   workspaceRoot: string;
   /** Path to convex.config.ts if found */
   configPath?: string;
-  /** Path to _generated/api.ts if found */
+  /** Path to _generated/api.d.ts or _generated/api.ts if found */
   generatedApiPath?: string;
+  /** Set when the project is a Convex component installed by another project */
+  component?: ConvexComponentInfo;
+}
+
+/**
+ * How a Convex component is installed in its parent project
+ */
+export interface ConvexComponentInfo {
+  /** Name used in the parent project (components.<name>.*) */
+  name: string;
+  /** Convex directory of the project that installs the component */
+  parentConvexDir: string;
+}
+
+/**
+ * A table declared with defineTable() in convex/schema.ts
+ */
+export interface ConvexTableDefinition {
+  /** Table name (the key in defineSchema({...})) */
+  name: string;
+  /** Path to the schema file */
+  filePath: string;
+  /** Line of the table name (0-indexed) */
+  line: number;
+  /** Column where the table name starts */
+  column: number;
+  /** The document validator rendered as a TypeScript-like type */
+  fields: string;
+  /** Indexes declared on the table, in declaration order */
+  indexes: ConvexIndexDefinition[];
+  /** Whether the defineTable() chain could be parsed (fields and indexes are complete) */
+  parsed: boolean;
+}
+
+/**
+ * An index declared on a table with .index(), .searchIndex() or .vectorIndex()
+ */
+export interface ConvexIndexDefinition {
+  /** Index name (e.g., "by_email") */
+  name: string;
+  /** Kind of index */
+  kind: "index" | "searchIndex" | "vectorIndex";
+  /** Indexed fields; for search and vector indexes the search/vector field comes first */
+  fields: string[];
+  /** Line of the index name (0-indexed) */
+  line: number;
+  /** Column where the index name starts */
+  column: number;
+}
+
+/**
+ * A route registered with http.route() in convex/http.ts
+ */
+export interface ConvexHttpRoute {
+  /** HTTP method (e.g., "POST") */
+  method: string;
+  /** Exact path, or the prefix for routes registered with pathPrefix */
+  path: string;
+  /** Whether the route matches every path starting with `path` */
+  isPrefix: boolean;
+  /** Path to the router file */
+  filePath: string;
+  /** Line of the http.route() call (0-indexed) */
+  line: number;
+  /** Column where the http.route() call starts */
+  column: number;
+  /** Where the handler is defined, if it could be resolved */
+  handler?: ConvexHttpRouteHandler;
+}
+
+/**
+ * The httpAction handling a route
+ */
+export interface ConvexHttpRouteHandler {
+  /** Name of the handler (undefined for inline httpAction(...) handlers) */
+  name?: string;
+  /** File path where the handler is defined */
+  filePath: string;
+  /** Line of the handler (0-indexed) */
+  line: number;
+  /** Column where the handler name (or inline handler) starts */
+  column: number;
+}
+
+/**
+ * A cron job scheduled in convex/crons.ts
+ */
+export interface ConvexCronJob {
+  /** Name of the cron job (first argument) */
+  name: string;
+  /** Scheduling method (e.g., "interval", "daily", "cron") */
+  method: string;
+  /** Human-readable schedule (e.g., "every day at 09:30 UTC") */
+  schedule: string;
+  /** API path of the scheduled function (e.g., "internal.emails.sendDigest") */
+  apiPath?: string;
+  /** Path to the crons file */
+  filePath: string;
+  /** Line of the cron job declaration (0-indexed) */
+  line: number;
+  /** Column where the cron job declaration starts */
+  column: number;
 }